@@ -1,14 +1,330 @@
 // Vercel API route to proxy Space-Track.org requests
-// Handles authentication and CORS for satellite data fetching
+// Handles authentication and CORS for satellite data fetching, reuses the
+// Space-Track session, caches identical queries and enforces the request budget
+import { randomUUID } from 'node:crypto';
 
-const SPACE_TRACK_EMAIL = 'nihanth20@gmail.com';
-const SPACE_TRACK_PASSWORD = 'CS2wTBBW.*LjZeY';
+// Deployment account; set these in the hosting platform's environment settings
+const SPACE_TRACK_IDENTITY = process.env.SPACE_TRACK_IDENTITY;
+const SPACE_TRACK_PASSWORD = process.env.SPACE_TRACK_PASSWORD;
+// When enabled, clients may sign in with their own Space-Track account instead of using the deployment one
+const ALLOW_USER_CREDENTIALS = process.env.SPACE_TRACK_ALLOW_USER_CREDENTIALS === 'true';
+// A visitor's proxy session ends after this long without a request
+const USER_SESSION_IDLE_MS = 12 * 60 * 60 * 1000;
+
+// Only read-only queries against these classes are forwarded, so the route cannot act as an open relay
+const ALLOWED_CLASSES = new Set(['gp', 'satcat', 'decay', 'tip', 'gp_history', 'cdm_public']);
+const QUERY_PATTERN = /^\/basicspacedata\/query\/class\/([a-z_]+)(\/[^?#\\]*)?$/;
+
+// Overridable so development can point at the local mock (mock/space-track-server.js)
+const SPACE_TRACK_BASE_URL = process.env.SPACE_TRACK_BASE_URL || 'https://www.space-track.org';
+const USER_AGENT = 'Satellite-Map-App/1.0 (nihanth20@gmail.com)';
+
+// Space-Track allows 30 requests per minute and 300 per hour; both can be tightened per deployment
+const RATE_LIMITS = [
+  { label: 'minute', windowMs: 60 * 1000, max: Number(process.env.SPACE_TRACK_MAX_REQUESTS_PER_MINUTE) || 30 },
+  { label: 'hour', windowMs: 60 * 60 * 1000, max: Number(process.env.SPACE_TRACK_MAX_REQUESTS_PER_HOUR) || 300 },
+];
+const CACHE_TTL_MS = (Number(process.env.SPACE_TRACK_CACHE_TTL_SECONDS) || 600) * 1000;
+const MAX_CACHE_ENTRIES = 50;
+// Used when the login response does not say when the session cookie expires
+const DEFAULT_SESSION_LIFETIME_MS = 90 * 60 * 1000;
+
+// Module state survives between invocations for as long as the function instance stays warm.
+// Sessions, budgets and cached query results all belong to a Space-Track account.
+const sessions = new Map(); // identity -> { cookies, expiresAt }
+const pendingLogins = new Map(); // identity -> Promise of a session
+// Visitors' accounts stay here; the browser only holds the token
+const userSessions = new Map(); // session token -> { credentials, lastUsedAt }
+const upstreamRequestLogs = new Map(); // identity -> timestamps of requests sent to Space-Track
+const responseCache = new Map(); // identity + endpoint -> { data, expiresAt }
+const inFlightRequests = new Map(); // identity + endpoint -> Promise
+
+class RateLimitError extends Error {
+  constructor(retryAfterSeconds, label) {
+    super(`Space-Track request budget exceeded (per ${label})`);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+class RequestError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.status = status;
+  }
+}
+
+class UpstreamError extends Error {
+  constructor(message, status, statusText, retryAfter) {
+    super(message);
+    this.status = status;
+    this.statusText = statusText;
+    this.retryAfter = retryAfter;
+  }
+}
+
+function validateUserCredentials(userCredentials) {
+  if (!ALLOW_USER_CREDENTIALS) {
+    throw new RequestError('User-supplied Space-Track accounts are disabled on this deployment', 403);
+  }
+  if (!userCredentials || typeof userCredentials.identity !== 'string' || typeof userCredentials.password !== 'string'
+    || !userCredentials.identity || !userCredentials.password) {
+    throw new RequestError('Credentials must include an identity and a password', 400);
+  }
+  return { identity: userCredentials.identity, password: userCredentials.password };
+}
+
+function pruneUserSessions(now) {
+  for (const [token, session] of userSessions) {
+    if (now - session.lastUsedAt >= USER_SESSION_IDLE_MS) {
+      userSessions.delete(token);
+    }
+  }
+}
+
+// Returns the account to use for a request, or throws if none is available
+function resolveCredentials(sessionToken) {
+  if (sessionToken) {
+    const now = Date.now();
+    pruneUserSessions(now);
+    const session = userSessions.get(sessionToken);
+    // Also the case after a cold start, since sessions live in this instance's memory
+    if (!session) {
+      throw new RequestError('Space-Track session expired; sign in again', 401);
+    }
+    session.lastUsedAt = now;
+    return session.credentials;
+  }
+
+  if (!SPACE_TRACK_IDENTITY || !SPACE_TRACK_PASSWORD) {
+    throw new RequestError('Space-Track credentials are not configured on this deployment', 503);
+  }
+  return { identity: SPACE_TRACK_IDENTITY, password: SPACE_TRACK_PASSWORD };
+}
+
+function validateEndpoint(endpoint) {
+  if (typeof endpoint !== 'string') {
+    throw new RequestError('Endpoint is required', 400);
+  }
+
+  const match = endpoint.match(QUERY_PATTERN);
+  if (!match || endpoint.includes('..') || endpoint.includes('//')) {
+    throw new RequestError('Endpoint must be a /basicspacedata/query/class/... query', 400);
+  }
+  if (!ALLOWED_CLASSES.has(match[1])) {
+    throw new RequestError(`Query class "${match[1]}" is not allowed`, 403);
+  }
+}
+
+const LONGEST_RATE_WINDOW_MS = Math.max(...RATE_LIMITS.map(limit => limit.windowMs));
+
+// Drops timestamps that have left every window, and accounts with none left
+function pruneRequestLogs(now) {
+  for (const [identity, log] of upstreamRequestLogs) {
+    while (log.length > 0 && now - log[0] >= LONGEST_RATE_WINDOW_MS) {
+      log.shift();
+    }
+    if (log.length === 0) {
+      upstreamRequestLogs.delete(identity);
+    }
+  }
+}
+
+// Records an upstream request, or throws if it would exceed a per-minute/per-hour budget
+function reserveRequestBudget(identity) {
+  const now = Date.now();
+  pruneRequestLogs(now);
+  if (!upstreamRequestLogs.has(identity)) {
+    upstreamRequestLogs.set(identity, []);
+  }
+  const upstreamRequestLog = upstreamRequestLogs.get(identity);
+
+  for (const limit of RATE_LIMITS) {
+    const inWindow = upstreamRequestLog.filter(timestamp => now - timestamp < limit.windowMs);
+    if (inWindow.length >= limit.max) {
+      // The budget frees up once enough of the oldest requests leave the window
+      const freedAt = inWindow[inWindow.length - limit.max] + limit.windowMs;
+      throw new RateLimitError(Math.max(1, Math.ceil((freedAt - now) / 1000)), limit.label);
+    }
+  }
+
+  upstreamRequestLog.push(now);
+}
+
+function getSetCookieHeaders(headers) {
+  if (typeof headers.getSetCookie === 'function') {
+    return headers.getSetCookie();
+  }
+  // Older runtimes join multiple Set-Cookie headers with commas (which also appear in Expires dates)
+  const combined = headers.get('set-cookie') || '';
+  return combined ? combined.split(/,(?=\s*[^;=\s]+=)/) : [];
+}
+
+function sessionExpiry(setCookieHeaders) {
+  const now = Date.now();
+  let expiresAt = now + DEFAULT_SESSION_LIFETIME_MS;
+
+  for (const header of setCookieHeaders) {
+    const maxAge = header.match(/max-age=(\d+)/i);
+    const expires = header.match(/expires=([^;]+)/i);
+    if (maxAge) {
+      expiresAt = Math.min(expiresAt, now + Number(maxAge[1]) * 1000);
+    } else if (expires && !isNaN(Date.parse(expires[1]))) {
+      expiresAt = Math.min(expiresAt, Date.parse(expires[1]));
+    }
+  }
+
+  // Renew a minute early so a request never races the expiry
+  return expiresAt - 60 * 1000;
+}
+
+async function login({ identity, password }) {
+  console.log('Authenticating with Space-Track.org...');
+  reserveRequestBudget(identity);
+
+  const authResponse = await fetch(`${SPACE_TRACK_BASE_URL}/ajaxauth/login`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': USER_AGENT,
+    },
+    body: new URLSearchParams({
+      identity,
+      password,
+    }),
+  });
+
+  if (!authResponse.ok) {
+    console.error('Space-Track authentication failed:', authResponse.status, authResponse.statusText);
+    throw new UpstreamError('Space-Track authentication failed', 401, authResponse.statusText);
+  }
+
+  const setCookieHeaders = getSetCookieHeaders(authResponse.headers);
+  // Rejected credentials still get a 200, with {"Login":"Failed"} and no session cookie
+  if (setCookieHeaders.length === 0) {
+    console.error('Space-Track rejected the login');
+    throw new UpstreamError('Space-Track authentication failed', 401, 'Login failed');
+  }
+  const session = {
+    cookies: setCookieHeaders.map(cookie => cookie.split(';')[0].trim()).join('; '),
+    expiresAt: sessionExpiry(setCookieHeaders),
+  };
+  sessions.set(identity, session);
+  return session;
+}
+
+// Concurrent requests that find no valid session share a single login
+function getSession(credentials) {
+  const { identity } = credentials;
+  const session = sessions.get(identity);
+  if (session && session.expiresAt > Date.now()) {
+    return Promise.resolve(session);
+  }
+  if (!pendingLogins.has(identity)) {
+    const pending = login(credentials).finally(() => pendingLogins.delete(identity));
+    pendingLogins.set(identity, pending);
+  }
+  return pendingLogins.get(identity);
+}
+
+async function fetchFromSpaceTrack(endpoint, credentials, isRetry = false) {
+  const { cookies } = await getSession(credentials);
+
+  console.log('Fetching data from:', endpoint);
+  reserveRequestBudget(credentials.identity);
+
+  const dataResponse = await fetch(`${SPACE_TRACK_BASE_URL}${endpoint}`, {
+    method: 'GET',
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'application/json',
+      'Cookie': cookies,
+    },
+  });
+
+  // The session was dropped upstream - log in again once
+  if (dataResponse.status === 401 && !isRetry) {
+    sessions.delete(credentials.identity);
+    return fetchFromSpaceTrack(endpoint, credentials, true);
+  }
+
+  if (!dataResponse.ok) {
+    console.error('Space-Track data request failed:', dataResponse.status, dataResponse.statusText);
+    throw new UpstreamError(
+      'Space-Track data request failed',
+      dataResponse.status,
+      dataResponse.statusText,
+      dataResponse.headers.get('retry-after')
+    );
+  }
+
+  const data = await dataResponse.text();
+
+  // Parse JSON if possible, otherwise return raw text
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    return data;
+  }
+}
+
+// Results are only shared between requests made with the same account
+function cacheKey(endpoint, credentials) {
+  return `${credentials.identity}\n${endpoint}`;
+}
+
+function getCachedResponse(key) {
+  const cached = responseCache.get(key);
+  if (!cached) return null;
+  if (cached.expiresAt <= Date.now()) {
+    responseCache.delete(key);
+    return null;
+  }
+  return cached.data;
+}
+
+function cacheResponse(key, data) {
+  if (CACHE_TTL_MS <= 0) return;
+  responseCache.delete(key);
+  responseCache.set(key, { data, expiresAt: Date.now() + CACHE_TTL_MS });
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  while (responseCache.size > MAX_CACHE_ENTRIES) {
+    responseCache.delete(responseCache.keys().next().value);
+  }
+}
+
+// Identical concurrent queries from the same account share a single upstream request
+function fetchOnce(endpoint, credentials) {
+  const key = cacheKey(endpoint, credentials);
+  if (!inFlightRequests.has(key)) {
+    const request = fetchFromSpaceTrack(endpoint, credentials)
+      .then(data => {
+        cacheResponse(key, data);
+        return data;
+      })
+      .finally(() => inFlightRequests.delete(key));
+    inFlightRequests.set(key, request);
+  }
+  return inFlightRequests.get(key);
+}
+
+// Checks a visitor's account against Space-Track and returns a token standing in for it
+async function startUserSession(userCredentials) {
+  const credentials = validateUserCredentials(userCredentials);
+  // Always a fresh login: joining another request's login would not check this password
+  await login(credentials);
+  const now = Date.now();
+  pruneUserSessions(now);
+  const sessionToken = randomUUID();
+  userSessions.set(sessionToken, { credentials, lastUsedAt: now });
+  return { sessionToken, identity: credentials.identity };
+}
 
 export default async function handler(req, res) {
   // Set CORS headers for all requests
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Headers', 'authorization, x-client-info, apikey, content-type');
   res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS, PUT, DELETE');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-Cache');
 
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -21,85 +337,66 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { action, endpoint } = req.body;
-    
+    const { action, endpoint, sessionToken, credentials: userCredentials } = req.body;
+
+    if (action === 'login') {
+      return res.status(200).json(await startUserSession(userCredentials));
+    }
+
+    if (action === 'logout') {
+      userSessions.delete(sessionToken);
+      return res.status(200).json({ ok: true });
+    }
+
     if (action !== 'fetch') {
       return res.status(400).json({ error: 'Invalid action' });
     }
 
-    if (!endpoint) {
-      return res.status(400).json({ error: 'Endpoint is required' });
+    validateEndpoint(endpoint);
+    const credentials = resolveCredentials(sessionToken);
+
+    const cached = getCachedResponse(cacheKey(endpoint, credentials));
+    if (cached !== null) {
+      console.log('Serving cached response for:', endpoint);
+      res.setHeader('X-Cache', 'HIT');
+      return res.status(200).json(cached);
     }
 
-    console.log('Authenticating with Space-Track.org...');
-    
-    // Step 1: Authenticate with Space-Track.org
-    const authUrl = 'https://www.space-track.org/ajaxauth/login';
-    const authResponse = await fetch(authUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Satellite-Map-App/1.0 (nihanth20@gmail.com)',
-      },
-      body: new URLSearchParams({
-        identity: SPACE_TRACK_EMAIL,
-        password: SPACE_TRACK_PASSWORD,
-      }),
-    });
+    const data = await fetchOnce(endpoint, credentials);
 
-    if (!authResponse.ok) {
-      console.error('Space-Track authentication failed:', authResponse.status, authResponse.statusText);
-      return res.status(401).json({ 
-        error: 'Space-Track authentication failed', 
-        status: authResponse.status,
-        statusText: authResponse.statusText 
-      });
-    }
+    console.log('Successfully fetched data from Space-Track.org');
 
-    // Step 2: Extract cookies from auth response
-    const setCookieHeaders = authResponse.headers.get('set-cookie') || '';
-    const cookies = setCookieHeaders.split(',').map(cookie => cookie.split(';')[0]).join('; ');
-
-    console.log('Authentication successful, fetching data from:', endpoint);
-    
-    // Step 3: Make the actual data request with authentication cookies
-    const dataUrl = `https://www.space-track.org${endpoint}`;
-    const dataResponse = await fetch(dataUrl, {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'Satellite-Map-App/1.0 (nihanth20@gmail.com)',
-        'Accept': 'application/json',
-        'Cookie': cookies,
-      },
-    });
+    res.setHeader('X-Cache', 'MISS');
+    return res.status(200).json(data);
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
 
-    if (!dataResponse.ok) {
-      console.error('Space-Track data request failed:', dataResponse.status, dataResponse.statusText);
-      return res.status(dataResponse.status).json({ 
-        error: 'Space-Track data request failed', 
-        status: dataResponse.status,
-        statusText: dataResponse.statusText 
+    if (error instanceof RateLimitError) {
+      console.warn(error.message);
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      return res.status(429).json({
+        error: error.message,
+        retryAfter: error.retryAfterSeconds
       });
     }
 
-    const data = await dataResponse.text();
-    
-    // Parse JSON if possible, otherwise return raw text
-    let parsedData;
-    try {
-      parsedData = JSON.parse(data);
-    } catch (error) {
-      parsedData = data;
+    if (error instanceof UpstreamError) {
+      if (error.retryAfter) {
+        res.setHeader('Retry-After', error.retryAfter);
+      }
+      return res.status(error.status).json({
+        error: error.message,
+        status: error.status,
+        statusText: error.statusText
+      });
     }
-    
-    console.log('Successfully fetched data from Space-Track.org');
-    
-    return res.status(200).json(parsedData);
-  } catch (error) {
+
     console.error('Proxy error:', error);
-    return res.status(500).json({ 
-      error: 'Proxy request failed', 
-      details: error.message 
+    return res.status(500).json({
+      error: 'Proxy request failed',
+      details: error.message
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,307 @@
+// Local stand-in for Space-Track.org for development and tests.
+// Implements the two routes api/space-track-proxy.js uses (/ajaxauth/login and
+// /basicspacedata/query/...) over fixture data, with configurable latency, errors and rate limits.
+//
+//   node mock/space-track-server.js                     listens on MOCK_SPACE_TRACK_PORT (8787)
+//   SPACE_TRACK_MOCK=1 npm run dev                      vite serves the proxy against an in-process instance
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const GP_FIXTURE = join(ROOT, 'public', 'fixtures', 'gp-catalog.json');
+const FIXTURES_DIR = join(ROOT, 'mock', 'fixtures');
+
+const SESSION_COOKIE = 'chocolatechip';
+const SESSION_LIFETIME_MS = 2 * 60 * 60 * 1000;
+const QUERY_PREFIX = '/basicspacedata/query/class/';
+const QUERY_KEYWORDS = new Set(['predicates', 'orderby', 'limit', 'format', 'metadata', 'distinct', 'emptyresult', 'favorites']);
+
+export function optionsFromEnv(env = process.env) {
+  const latency = (env.MOCK_SPACE_TRACK_LATENCY_MS || '0').split('-').map(Number);
+  return {
+    port: Number(env.MOCK_SPACE_TRACK_PORT) || 8787,
+    // Fixed "300" or a random range "200-1500"
+    latencyMs: [latency[0] || 0, latency[1] ?? latency[0] ?? 0],
+    // Fraction of queries that fail with errorStatus, e.g. 0.2
+    errorRate: Number(env.MOCK_SPACE_TRACK_ERROR_RATE) || 0,
+    errorStatus: Number(env.MOCK_SPACE_TRACK_ERROR_STATUS) || 500,
+    maxPerMinute: Number(env.MOCK_SPACE_TRACK_MAX_REQUESTS_PER_MINUTE) || 30,
+    maxPerHour: Number(env.MOCK_SPACE_TRACK_MAX_REQUESTS_PER_HOUR) || 300,
+    // When set, only this identity/password pair can log in
+    identity: env.MOCK_SPACE_TRACK_IDENTITY || null,
+    password: env.MOCK_SPACE_TRACK_PASSWORD || null,
+    // "now" in relative queries; defaults to the fixture's latest CREATION_DATE so fixtures never age out
+    now: env.MOCK_SPACE_TRACK_NOW || null,
+    fixturesDir: env.MOCK_SPACE_TRACK_FIXTURES || FIXTURES_DIR,
+  };
+}
+
+const readJSON = (file) => JSON.parse(readFileSync(file, 'utf8'));
+
+// SATCAT records derived from the GP fixture, in the satcat class's column names
+const satcatFromGP = (gp) => gp.map(record => ({
+  INTLDES: record.OBJECT_ID,
+  NORAD_CAT_ID: record.NORAD_CAT_ID,
+  OBJECT_TYPE: record.OBJECT_TYPE,
+  SATNAME: record.OBJECT_NAME,
+  COUNTRY: record.COUNTRY_CODE,
+  LAUNCH: record.LAUNCH_DATE,
+  SITE: record.SITE,
+  DECAY: record.DECAY_DATE,
+  PERIOD: record.PERIOD,
+  INCLINATION: record.INCLINATION,
+  APOGEE: record.APOAPSIS,
+  PERIGEE: record.PERIAPSIS,
+  RCS_SIZE: record.RCS_SIZE,
+  CURRENT: 'Y',
+  OBJECT_NAME: record.OBJECT_NAME,
+  OBJECT_ID: record.OBJECT_ID,
+  OBJECT_NUMBER: record.NORAD_CAT_ID,
+}));
+
+// mock/fixtures/<class>.json overrides the built-in data for that class
+export function loadFixtures(fixturesDir = FIXTURES_DIR) {
+  const fromFile = (queryClass) => {
+    const file = join(fixturesDir, `${queryClass}.json`);
+    return existsSync(file) ? readJSON(file) : null;
+  };
+  const gp = fromFile('gp') ?? readJSON(GP_FIXTURE);
+  return {
+    gp,
+    gp_history: fromFile('gp_history') ?? gp,
+    satcat: fromFile('satcat') ?? satcatFromGP(gp),
+    decay: fromFile('decay') ?? [],
+    tip: fromFile('tip') ?? [],
+    cdm_public: fromFile('cdm_public') ?? [],
+  };
+}
+
+const latestCreationDate = (gp) =>
+  gp.reduce((latest, record) => (record.CREATION_DATE && record.CREATION_DATE > latest ? record.CREATION_DATE : latest), '');
+
+// Space-Track datetimes are compared as text, so normalize to YYYY-MM-DDTHH:MM:SS
+const formatDate = (date) => date.toISOString().substring(0, 19);
+const NUMBER = /^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+function resolveValue(text, now) {
+  const relative = text.match(/^now([+-]\d+(\.\d+)?)?$/);
+  if (!relative) return text;
+  return formatDate(new Date(now.getTime() + Number(relative[1] || 0) * 86400000));
+}
+
+const normalizeDate = (text) => text.replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T');
+
+function compare(fieldValue, value) {
+  const a = String(fieldValue);
+  if (NUMBER.test(a) && NUMBER.test(value)) return Number(a) - Number(value);
+  const left = normalizeDate(a);
+  const right = normalizeDate(value);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+const isNullValue = (value) => value === null || value === undefined || value === '';
+
+function matches(fieldValue, expression, now) {
+  if (expression === 'null-val') return isNullValue(fieldValue);
+  if (expression === '<>null-val') return !isNullValue(fieldValue);
+  if (isNullValue(fieldValue)) return false;
+
+  if (expression.startsWith('<>')) return compare(fieldValue, resolveValue(expression.slice(2), now)) !== 0;
+  if (expression.startsWith('>')) return compare(fieldValue, resolveValue(expression.slice(1), now)) > 0;
+  if (expression.startsWith('<')) return compare(fieldValue, resolveValue(expression.slice(1), now)) < 0;
+  if (expression.startsWith('~~')) return String(fieldValue).toLowerCase().includes(expression.slice(2).toLowerCase());
+  if (expression.startsWith('^')) return String(fieldValue).toLowerCase().startsWith(expression.slice(1).toLowerCase());
+  if (expression.includes('--')) {
+    const [from, to] = expression.split('--').map(part => resolveValue(part, now));
+    return compare(fieldValue, from) >= 0 && compare(fieldValue, to) <= 0;
+  }
+  return expression.split(',').some(option => {
+    const value = resolveValue(option, now);
+    return NUMBER.test(value) ? compare(fieldValue, value) === 0 : String(fieldValue).toLowerCase() === value.toLowerCase();
+  });
+}
+
+/** Parses a /basicspacedata/query/class/... path. Throws on anything the mock does not understand. */
+export function parseQuery(path) {
+  const segments = path.substring(QUERY_PREFIX.length).split('/').filter(Boolean).map(decodeURIComponent);
+  const [queryClass, ...rest] = segments;
+  const query = { queryClass, filters: [], columns: null, orderBy: [], limit: null, offset: 0, format: 'json' };
+
+  for (let i = 0; i < rest.length; i += 2) {
+    const key = rest[i];
+    const value = rest[i + 1];
+    if (value === undefined) throw new Error(`Missing value after "${key}"`);
+    if (!QUERY_KEYWORDS.has(key.toLowerCase())) {
+      query.filters.push({ field: key, expression: value });
+      continue;
+    }
+    switch (key.toLowerCase()) {
+      case 'predicates':
+        query.columns = value.split(',');
+        break;
+      case 'orderby':
+        query.orderBy = value.split(',').map(clause => {
+          const [field, direction] = clause.trim().split(/\s+/);
+          return { field, descending: direction?.toLowerCase() === 'desc' };
+        });
+        break;
+      case 'limit': {
+        const [count, offset] = value.split(',').map(Number);
+        query.limit = count;
+        query.offset = offset || 0;
+        break;
+      }
+      case 'format':
+        query.format = value.toLowerCase();
+        break;
+      default:
+        // metadata, distinct, emptyresult and favorites do not change the mock's output
+        break;
+    }
+  }
+  return query;
+}
+
+export function runQuery(records, query, now) {
+  let result = records.filter(record =>
+    query.filters.every(({ field, expression }) => matches(record[field], expression, now))
+  );
+  if (query.orderBy.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { field, descending } of query.orderBy) {
+        if (isNullValue(a[field]) || isNullValue(b[field])) continue;
+        const order = compare(a[field], String(b[field]));
+        if (order !== 0) return descending ? -order : order;
+      }
+      return 0;
+    });
+  }
+  if (query.limit) result = result.slice(query.offset, query.offset + query.limit);
+  if (query.columns) {
+    result = result.map(record => Object.fromEntries(query.columns.map(column => [column, record[column] ?? null])));
+  }
+  return result;
+}
+
+function formatResult(records, format) {
+  if (format === 'json') return { type: 'application/json', body: JSON.stringify(records) };
+  if (format === 'tle' || format === '3le') {
+    const lines = records.flatMap(record => [
+      ...(format === '3le' ? [record.TLE_LINE0 || `0 ${record.OBJECT_NAME}`] : []),
+      record.TLE_LINE1,
+      record.TLE_LINE2,
+    ]);
+    return { type: 'text/plain', body: lines.join('\n') };
+  }
+  throw new Error(`The mock only serves json, tle and 3le, not ${format}`);
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const parseCookies = (header = '') => Object.fromEntries(
+  header.split(';').map(pair => pair.trim().split('=')).filter(([name]) => name)
+);
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createMockSpaceTrackServer(options = optionsFromEnv()) {
+  const fixtures = loadFixtures(options.fixturesDir);
+  const fixedNow = options.now === 'real' ? null : new Date(options.now || `${latestCreationDate(fixtures.gp)}Z`);
+  const currentTime = () => (fixedNow && !isNaN(fixedNow.getTime()) ? fixedNow : new Date());
+  const sessions = new Map(); // token -> { identity, expiresAt }
+  const requestLogs = new Map(); // identity -> timestamps
+
+  const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  };
+
+  // Returns seconds until the budget frees up, or 0 if the request may proceed
+  const checkRateLimit = (identity) => {
+    const now = Date.now();
+    const log = (requestLogs.get(identity) ?? []).filter(timestamp => now - timestamp < 60 * 60 * 1000);
+    requestLogs.set(identity, log);
+    const lastMinute = log.filter(timestamp => now - timestamp < 60 * 1000);
+    if (lastMinute.length >= options.maxPerMinute) return Math.ceil((lastMinute[0] + 60 * 1000 - now) / 1000);
+    if (log.length >= options.maxPerHour) return Math.ceil((log[0] + 60 * 60 * 1000 - now) / 1000);
+    log.push(now);
+    return 0;
+  };
+
+  const handleLogin = async (req, res) => {
+    const form = new URLSearchParams(await readBody(req));
+    const identity = form.get('identity');
+    const password = form.get('password');
+    const accepted = identity && password
+      && (!options.identity || identity === options.identity)
+      && (!options.password || password === options.password);
+    // Like Space-Track, a rejected login is still a 200
+    if (!accepted) return send(res, 200, { Login: 'Failed' });
+
+    const token = randomUUID();
+    const expiresAt = Date.now() + SESSION_LIFETIME_MS;
+    sessions.set(token, { identity, expiresAt });
+    return send(res, 200, '""', {
+      'Set-Cookie': `${SESSION_COOKIE}=${token}; path=/; expires=${new Date(expiresAt).toUTCString()}; HttpOnly`,
+    });
+  };
+
+  const handleQuery = (req, res, path) => {
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    const session = token && sessions.get(token);
+    if (!session || session.expiresAt <= Date.now()) {
+      return send(res, 401, { error: 'You must be logged in to complete this action' });
+    }
+
+    const retryAfter = checkRateLimit(session.identity);
+    if (retryAfter > 0) {
+      return send(res, 429, { error: 'Rate limit exceeded' }, { 'Retry-After': String(retryAfter) });
+    }
+    if (options.errorRate > 0 && Math.random() < options.errorRate) {
+      return send(res, options.errorStatus, { error: 'Simulated Space-Track failure' });
+    }
+
+    let query;
+    try {
+      query = parseQuery(path);
+      const records = fixtures[query.queryClass];
+      if (!records) return send(res, 400, { error: `Unknown class ${query.queryClass}` });
+      const { type, body } = formatResult(runQuery(records, query, currentTime()), query.format);
+      return send(res, 200, body, { 'Content-Type': type });
+    } catch (error) {
+      return send(res, 400, { error: error.message });
+    }
+  };
+
+  return createServer(async (req, res) => {
+    const [minLatency, maxLatency] = options.latencyMs;
+    if (maxLatency > 0) await sleep(minLatency + Math.random() * (maxLatency - minLatency));
+
+    const path = new URL(req.url, 'http://localhost').pathname;
+    console.log(`[mock space-track] ${req.method} ${decodeURIComponent(path)}`);
+    try {
+      if (req.method === 'POST' && path === '/ajaxauth/login') return await handleLogin(req, res);
+      if (req.method === 'GET' && path.startsWith(QUERY_PREFIX)) return handleQuery(req, res, path);
+      return send(res, 404, { error: 'Not found' });
+    } catch (error) {
+      return send(res, 500, { error: error.message });
+    }
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const options = optionsFromEnv();
+  createMockSpaceTrackServer(options).listen(options.port, () => {
+    console.log(`Mock Space-Track listening on http://localhost:${options.port}`);
+    console.log(`Point the proxy at it with SPACE_TRACK_BASE_URL=http://localhost:${options.port}`);
+  });
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Activity, Database, AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useSatelliteStore } from '../stores/satelliteStore';
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+// Header badge showing whether positions come from a live or a cached catalog
+const CatalogStatusBadge: React.FC = () => {
+  const { catalogInfo } = useSatelliteStore();
+
+  if (catalogInfo?.freshness === 'stale') {
+    return (
+      <Badge
+        className="terminal-button bg-neon-orange/20 border-neon-orange text-neon-orange"
+        title={`Last successful fetch: ${new Date(catalogInfo.fetchedAt).toLocaleString()}`}
+      >
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        STALE DATA · {formatAge(catalogInfo.fetchedAt).toUpperCase()}
+      </Badge>
+    );
+  }
+
+  if (catalogInfo?.freshness === 'cached') {
+    return (
+      <Badge
+        className="terminal-button bg-neon-yellow/20 border-neon-yellow text-neon-yellow"
+        title={`Cached catalog from ${new Date(catalogInfo.fetchedAt).toLocaleString()}, refreshing`}
+      >
+        <Database className="h-3 w-3 mr-1" />
+        CACHED · SYNCING
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge className="terminal-button bg-danger-red/20 border-danger-red text-danger-red animate-terminal-flicker">
+      <Activity className="h-3 w-3 mr-1" />
+      LIVE FEED
+    </Badge>
+  );
+};
+
+export default CatalogStatusBadge;
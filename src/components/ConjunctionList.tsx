@@ -0,0 +1,155 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Crosshair, Upload, Radio, AlertTriangle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { useConjunctionData } from '../hooks/useConjunctionData';
+import { formatMissDistance, formatProbability, parseCDMFile, sortConjunctions } from '../services/conjunctions';
+import { Conjunction } from '../types/satellite.types';
+
+const MAX_LISTED = 50;
+// Collision probability at which operators typically start planning avoidance
+const HIGH_RISK_PC = 1e-4;
+
+const formatTCA = (tca: string) => `${new Date(tca).toISOString().substring(0, 19).replace('T', ' ')}Z`;
+
+// Close approaches from public CDMs or a loaded CDM file; selecting one jumps the globe to TCA
+const ConjunctionList: React.FC = () => {
+  const {
+    satellites,
+    importedConjunctions,
+    importConjunctions,
+    clearImportedConjunctions,
+    selectedConjunction,
+    selectConjunction,
+    globeSettings
+  } = useSatelliteStore();
+  const { data: fetched, isLoading, error } = useConjunctionData();
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const catalogNames = useMemo(() => new Map(satellites.map(sat => [sat.id, sat.name])), [satellites]);
+  const conjunctions = useMemo(
+    () => sortConjunctions([...(fetched ?? []), ...importedConjunctions]).slice(0, MAX_LISTED),
+    [fetched, importedConjunctions]
+  );
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { conjunctions: parsed, errors } = parseCDMFile(await file.text());
+    importConjunctions(parsed);
+    setFileErrors(errors);
+  };
+
+  const objectName = (object: Conjunction['primary']) =>
+    object.name || catalogNames.get(object.noradId) || `NORAD ${object.noradId}`;
+
+  return (
+    <Card className="glass-panel p-3 flex-shrink-0">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-sm text-foreground flex items-center space-x-2">
+          <Crosshair className="h-3 w-3 text-neon-yellow" />
+          <span>Conjunctions</span>
+        </h3>
+        <div className="flex items-center space-x-1">
+          {globeSettings.simulationTime !== null && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => selectConjunction(null)}
+              className="cosmic-border h-6 text-xs px-2"
+              title="Return the globe to real time"
+            >
+              <Radio className="h-3 w-3 mr-1" />
+              Live
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.kvn,.txt,.cdm,application/json,text/plain"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            className="cosmic-border h-6 text-xs px-2"
+            title="Load CDMs (cdm_public JSON or CCSDS KVN)"
+          >
+            <Upload className="h-3 w-3" />
+          </Button>
+          <Badge variant="outline" className="text-xs text-neon-yellow border-neon-yellow/30">
+            {conjunctions.length}
+          </Badge>
+        </div>
+      </div>
+
+      {fileErrors.length > 0 && (
+        <div className="text-xs text-danger-red mb-1" title={fileErrors.join('\n')}>
+          {fileErrors.length} CDM record{fileErrors.length === 1 ? '' : 's'} skipped
+        </div>
+      )}
+
+      {importedConjunctions.length > 0 && (
+        <button
+          type="button"
+          onClick={clearImportedConjunctions}
+          className="text-xs text-muted-foreground hover:text-foreground underline mb-1"
+        >
+          Clear {importedConjunctions.length} from file
+        </button>
+      )}
+
+      {error && conjunctions.length === 0 ? (
+        <div className="text-xs text-danger-red flex items-center space-x-1">
+          <AlertTriangle className="h-3 w-3" />
+          <span>Conjunction data unavailable</span>
+        </div>
+      ) : isLoading && conjunctions.length === 0 ? (
+        <div className="text-xs text-muted-foreground">Loading conjunction data messages...</div>
+      ) : conjunctions.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No conjunctions loaded</div>
+      ) : (
+        <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+          {conjunctions.map(conjunction => {
+            const isSelected = selectedConjunction?.id === conjunction.id;
+            const linked = catalogNames.has(conjunction.primary.noradId) && catalogNames.has(conjunction.secondary.noradId);
+            const highRisk = conjunction.emergencyReportable || (conjunction.probability ?? 0) >= HIGH_RISK_PC;
+            return (
+              <button
+                key={conjunction.id}
+                type="button"
+                onClick={() => selectConjunction(isSelected ? null : conjunction)}
+                className={`w-full text-left p-1.5 rounded border text-xs transition-colors ${
+                  isSelected ? 'border-neon-yellow bg-neon-yellow/10' : 'border-border/30 hover:bg-muted/30'
+                } ${linked ? '' : 'opacity-60'}`}
+                title={linked ? undefined : 'One or both objects are not in the loaded catalog'}
+              >
+                <div className="font-medium truncate">
+                  {objectName(conjunction.primary)} × {objectName(conjunction.secondary)}
+                </div>
+                <div className="flex items-center justify-between text-muted-foreground">
+                  <span className="font-mono">{formatTCA(conjunction.tca)}</span>
+                  <span className="font-mono">
+                    <span className={highRisk ? 'text-danger-red' : 'text-neon-yellow'}>
+                      {formatMissDistance(conjunction.missDistance)}
+                    </span>
+                    {' · Pc '}
+                    {formatProbability(conjunction.probability)}
+                  </span>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default ConjunctionList;
@@ -1,10 +1,21 @@
 import React from 'react';
-import { RotateCcw, Eye, EyeOff, Orbit, MapPin, Clock, Zap, Filter, Activity, MousePointerClick } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { RotateCcw, Eye, EyeOff, Orbit, MapPin, Clock, Zap, Filter, Activity, MousePointerClick, Database, Upload } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useSatelliteStore } from '../stores/satelliteStore';
+import { dataSources, localFileDataSource } from '../services/dataSources';
+import { hasPosition } from '../services/tleValidation';
+import { SatelliteDataSourceId } from '../types/satellite.types';
+import ElementSetDialog from './ElementSetDialog';
+import SpaceTrackAccountDialog from './SpaceTrackAccountDialog';
+import SimulationClockPanel from './SimulationClockPanel';
+
+// Minimum elevations offered for the coverage footprint, in degrees
+const FOOTPRINT_ELEVATIONS = [0, 5, 10, 15, 20, 30];
 
 const ControlPanel: React.FC = () => {
   const { 
@@ -17,11 +28,22 @@ const ControlPanel: React.FC = () => {
     setSelectedSatellite,
     maxDisplaySatellites,
     setMaxDisplaySatellites,
-    satellites
+    satellites,
+    dataSource,
+    setDataSource,
+    catalogInfo
   } = useSatelliteStore();
+  const queryClient = useQueryClient();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   const selectedSatellite = getSelectedSatellite();
 
+  const handleLocalFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    localFileDataSource.setFile(event.target.files?.[0] ?? null);
+    event.target.value = '';
+    queryClient.invalidateQueries({ queryKey: ['satellites', 'local'] });
+  };
+
   const resetView = () => {
     updateGlobeSettings({ 
       selectedSatelliteId: null
@@ -34,6 +56,11 @@ const ControlPanel: React.FC = () => {
       countries: [],
       agencies: [],
       status: [],
+      objectTypes: [],
+      rcsSizes: [],
+      launchSites: [],
+      qualityLevels: [],
+      maneuveredWithinDays: null,
       searchQuery: '',
       showOnlyVisible: false
     });
@@ -60,7 +87,9 @@ const ControlPanel: React.FC = () => {
             </div>
             
             <div className="text-xs text-muted-foreground">
-              Positions updated every 30 seconds using live TLE data
+              {catalogInfo?.freshness === 'stale'
+                ? `Offline - propagating from cached TLEs fetched ${new Date(catalogInfo.fetchedAt).toLocaleString()}`
+                : 'Positions updated every 30 seconds using live TLE data'}
             </div>
             
             <div className="space-y-1">
@@ -98,6 +127,63 @@ const ControlPanel: React.FC = () => {
           </div>
         </Card>
 
+        {/* Data Source */}
+        <Card className="glass-panel p-3">
+          <div className="space-y-3">
+            <h3 className="font-medium text-sm text-foreground flex items-center space-x-2">
+              <Database className="h-3 w-3 text-primary" />
+              <span>Data Source</span>
+            </h3>
+            
+            <Select value={dataSource} onValueChange={(value) => setDataSource(value as SatelliteDataSourceId)}>
+              <SelectTrigger className="h-7 text-xs bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border border-border shadow-lg z-50">
+                {Object.values(dataSources).map((source) => (
+                  <SelectItem key={source.id} value={source.id} className="text-xs">
+                    {source.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <div className="text-xs text-muted-foreground">
+              {dataSources[dataSource].description}
+            </div>
+            
+            {dataSource === 'space-track' && <SpaceTrackAccountDialog />}
+            
+            {dataSource === 'local' && (
+              <div className="space-y-1">
+                <div className="text-xs font-mono text-primary truncate">
+                  {localFileDataSource.getFileName()}
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,.tle,.txt,.xml,.kvn,application/json,application/xml,text/plain"
+                  className="hidden"
+                  onChange={handleLocalFile}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="cosmic-border h-6 text-xs px-2 w-full"
+                >
+                  <Upload className="h-3 w-3 mr-1" />
+                  Load File
+                </Button>
+              </div>
+            )}
+            
+            <ElementSetDialog />
+          </div>
+        </Card>
+
+        <SimulationClockPanel />
+
         {/* Display Options */}
         <Card className="glass-panel p-3">
           <div className="space-y-3">
@@ -115,6 +201,33 @@ const ControlPanel: React.FC = () => {
                 />
               </div>
               
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-foreground" title="Minimum elevation above the horizon that counts as coverage">
+                  Coverage Min. Elevation
+                </span>
+                <Select
+                  value={String(globeSettings.footprintMinElevation)}
+                  onValueChange={(value) => updateGlobeSettings({ footprintMinElevation: Number(value) })}
+                >
+                  <SelectTrigger className="h-6 w-20 text-xs bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FOOTPRINT_ELEVATIONS.map(elevation => (
+                      <SelectItem key={elevation} value={String(elevation)}>{elevation}°</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-foreground">Flag Suspect Data</span>
+                <Switch
+                  checked={globeSettings.highlightSuspect}
+                  onCheckedChange={(checked) => updateGlobeSettings({ highlightSuspect: checked })}
+                />
+              </div>
+              
               <div className="flex items-center justify-between">
                 <span className="text-xs text-foreground">Major Cities</span>
                 <Switch
@@ -250,9 +363,11 @@ const ControlPanel: React.FC = () => {
                       <span className="text-muted-foreground">Altitude</span>
                     </div>
                     <div className="font-mono text-primary text-xs font-medium">
-                      {selectedSatellite.position.altitude > 1000 
-                        ? `${(selectedSatellite.position.altitude / 1000).toFixed(1)}K km`
-                        : `${selectedSatellite.position.altitude.toFixed(0)} km`
+                      {!hasPosition(selectedSatellite)
+                        ? 'N/A'
+                        : selectedSatellite.position.altitude > 1000 
+                          ? `${(selectedSatellite.position.altitude / 1000).toFixed(1)}K km`
+                          : `${selectedSatellite.position.altitude.toFixed(0)} km`
                       }
                     </div>
                   </div>
@@ -291,7 +406,9 @@ const ControlPanel: React.FC = () => {
                 <div className="bg-muted/30 rounded p-2">
                   <div className="text-xs text-muted-foreground mb-1">Position</div>
                   <div className="font-mono text-primary text-xs">
-                    {selectedSatellite.position.latitude.toFixed(2)}°, {selectedSatellite.position.longitude.toFixed(2)}°
+                    {hasPosition(selectedSatellite)
+                      ? `${selectedSatellite.position.latitude.toFixed(2)}°, ${selectedSatellite.position.longitude.toFixed(2)}°`
+                      : selectedSatellite.quality.reasons.join('; ')}
                   </div>
                 </div>
               </div>
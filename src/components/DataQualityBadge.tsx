@@ -0,0 +1,37 @@
+import React from 'react';
+import { AlertTriangle, XOctagon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { DataQuality } from '../types/satellite.types';
+
+interface DataQualityBadgeProps {
+  quality: DataQuality | undefined;
+  // Also render a badge for objects whose element sets passed every check
+  showOk?: boolean;
+}
+
+// Flags suspect and invalid element sets; the reasons are in the tooltip
+const DataQualityBadge: React.FC<DataQualityBadgeProps> = ({ quality, showOk = false }) => {
+  if (!quality || (quality.level === 'ok' && !showOk)) return null;
+
+  if (quality.level === 'ok') {
+    return (
+      <Badge variant="outline" className="text-xs text-terminal-green border-terminal-green/30">
+        ok
+      </Badge>
+    );
+  }
+
+  const isInvalid = quality.level === 'invalid';
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs ${isInvalid ? 'text-danger-red border-danger-red/40' : 'text-neon-orange border-neon-orange/40'}`}
+      title={quality.reasons.join('\n')}
+    >
+      {isInvalid ? <XOctagon className="h-3 w-3 mr-1" /> : <AlertTriangle className="h-3 w-3 mr-1" />}
+      {quality.level}
+    </Badge>
+  );
+};
+
+export default DataQualityBadge;
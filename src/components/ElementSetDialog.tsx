@@ -0,0 +1,262 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileText, Upload, Download, AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { spaceTrackAPI } from '../services/spaceTrackAPI';
+import { parseTLEText } from '../services/tle';
+import { detectOMMFormat, formatOMMKVN, formatOMMXML, OMMRecord, parseOMM, satelliteToOMM } from '../services/omm';
+import { Satellite } from '../types/satellite.types';
+
+type ExportFormat = '3le' | 'omm-xml' | 'omm-kvn';
+
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  '3le': { label: 'Three-line elements (3LE)', extension: 'tle', mimeType: 'text/plain' },
+  'omm-xml': { label: 'CCSDS OMM (XML)', extension: 'xml', mimeType: 'application/xml' },
+  'omm-kvn': { label: 'CCSDS OMM (KVN)', extension: 'kvn', mimeType: 'text/plain' }
+};
+
+interface ParsedElementSets {
+  format: string;
+  count: number;
+  errors: string[];
+  toSatellites: () => Satellite[];
+}
+
+// Parses pasted text as OMM when it looks like one, otherwise as TLE/3LE
+const parseElementSetText = (text: string): ParsedElementSets => {
+  const ommFormat = detectOMMFormat(text);
+  if (ommFormat) {
+    const { records, errors } = parseOMM(text);
+    return {
+      format: `OMM ${ommFormat.toUpperCase()}`,
+      count: records.length,
+      errors,
+      toSatellites: () => spaceTrackAPI.convertCatalog(records)
+    };
+  }
+
+  const { elementSets, errors } = parseTLEText(text);
+  return {
+    format: 'TLE',
+    count: elementSets.length,
+    errors: errors.map(error => `Line ${error.line}: ${error.message}`),
+    toSatellites: () => spaceTrackAPI.convertElementSets(elementSets)
+  };
+};
+
+const serializeSatellites = (satellites: Satellite[], format: ExportFormat): { text: string; skipped: number } => {
+  if (format === '3le') {
+    const valid = satellites.filter(sat => sat.tle?.line1?.length === 69 && sat.tle?.line2?.length === 69);
+    const text = valid.map(sat => `${sat.name}\n${sat.tle.line1}\n${sat.tle.line2}\n`).join('');
+    return { text, skipped: satellites.length - valid.length };
+  }
+
+  const records: OMMRecord[] = [];
+  satellites.forEach(sat => {
+    try {
+      records.push(satelliteToOMM(sat));
+    } catch (error) {
+      // Objects without a parseable element set cannot be expressed as an OMM
+    }
+  });
+  const text = format === 'omm-xml' ? formatOMMXML(records) : formatOMMKVN(records);
+  return { text, skipped: satellites.length - records.length };
+};
+
+const downloadText = (text: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ElementSetDialog: React.FC = () => {
+  const {
+    importSatellites,
+    importedSatellites,
+    clearImportedSatellites,
+    filteredSatellites,
+    getSelectedSatellite
+  } = useSatelliteStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('omm-xml');
+  const [exportSkipped, setExportSkipped] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => parseElementSetText(text), [text]);
+  const selectedSatellite = getSelectedSatellite();
+  const exportSatellites = selectedSatellite ? [selectedSatellite] : filteredSatellites;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      setText(await file.text());
+    }
+  };
+
+  const handleImport = () => {
+    importSatellites(parsed.toSatellites());
+    setText('');
+    setIsOpen(false);
+  };
+
+  const handleExport = () => {
+    const { text: output, skipped } = serializeSatellites(exportSatellites, exportFormat);
+    const { extension, mimeType } = EXPORT_FORMATS[exportFormat];
+    const basename = selectedSatellite ? `norad-${selectedSatellite.id}` : 'catalog';
+    downloadText(output, `${basename}.${extension}`, mimeType);
+    setExportSkipped(skipped);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="cosmic-border h-6 text-xs px-2 w-full"
+        >
+          <FileText className="h-3 w-3 mr-1" />
+          Import / Export
+          {importedSatellites.length > 0 && (
+            <Badge variant="secondary" className="ml-1 h-4 px-1 text-xs">
+              {importedSatellites.length}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="bg-background border border-border max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Element Sets</DialogTitle>
+          <DialogDescription>
+            Exchange orbital elements as TLE/3LE text or CCSDS Orbit Mean-Elements Messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="import">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="export">Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="import" className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Paste or upload 2LE/3LE sets or OMM XML/KVN. Imported objects replace catalog entries with the
+              same NORAD ID.
+            </p>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'ISS (ZARYA)\n1 25544U 98067A   ...\n2 25544  51.6416 ...'}
+              className="font-mono text-xs h-56 whitespace-pre"
+              spellCheck={false}
+            />
+
+            <div className="flex items-center justify-between">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".tle,.txt,.3le,.xml,.kvn,.omm,text/plain,application/xml"
+                className="hidden"
+                onChange={handleFile}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload File
+              </Button>
+
+              {text.trim() && (
+                <div className="flex items-center space-x-2 text-xs">
+                  <Badge variant="outline">{parsed.format}</Badge>
+                  <Badge variant="outline" className="text-green-400 border-green-400/30">
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    {parsed.count} valid
+                  </Badge>
+                  {parsed.errors.length > 0 && (
+                    <Badge variant="outline" className="text-danger-red border-danger-red/30">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      {parsed.errors.length} rejected
+                    </Badge>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {parsed.errors.length > 0 && (
+              <div className="max-h-32 overflow-y-auto bg-muted/20 rounded p-2 space-y-1">
+                {parsed.errors.map((error, index) => (
+                  <div key={index} className="text-xs font-mono text-danger-red">
+                    {error}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2">
+              {importedSatellites.length > 0 && (
+                <Button variant="ghost" onClick={clearImportedSatellites}>
+                  Clear {importedSatellites.length} imported
+                </Button>
+              )}
+              <Button onClick={handleImport} disabled={parsed.count === 0}>
+                Import {parsed.count > 0 ? parsed.count : ''} Objects
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="export" className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              {selectedSatellite
+                ? `Exports the selected satellite (${selectedSatellite.name}).`
+                : `Exports the ${filteredSatellites.length.toLocaleString()} satellites matching the current filters.`}
+            </p>
+
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border border-border shadow-lg z-50">
+                {Object.entries(EXPORT_FORMATS).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {exportSkipped > 0 && (
+              <div className="text-xs text-danger-red">
+                {exportSkipped} objects without a valid element set were skipped.
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button onClick={handleExport} disabled={exportSatellites.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ElementSetDialog;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { History, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { useHistoryStore } from '../stores/historyStore';
+import { getDataSource } from '../services/dataSources';
+import { ElementSetHistoryPoint } from '../types/satellite.types';
+
+interface ElementSetHistoryProps {
+  noradId: string;
+}
+
+type Metric = keyof Pick<ElementSetHistoryPoint, 'meanAltitude' | 'inclination' | 'eccentricity' | 'bstar'>;
+
+const METRICS: { key: Metric; label: string; color: string; format: (value: number) => string }[] = [
+  { key: 'meanAltitude', label: 'Mean Altitude (km)', color: 'hsl(var(--neon-cyan))', format: value => value.toFixed(1) },
+  { key: 'inclination', label: 'Inclination (°)', color: 'hsl(var(--terminal-green))', format: value => value.toFixed(3) },
+  { key: 'eccentricity', label: 'Eccentricity', color: 'hsl(var(--neon-yellow))', format: value => value.toFixed(5) },
+  { key: 'bstar', label: 'BSTAR (1/ER)', color: 'hsl(var(--neon-orange))', format: value => value.toExponential(2) }
+];
+
+const DEFAULT_RANGE_DAYS = 90;
+
+const toDateInput = (date: Date) => date.toISOString().substring(0, 10);
+const formatEpoch = (time: number) => new Date(time).toISOString().substring(0, 10);
+
+// gp_history charts for one object; analysts use these to spot orbit raising, decay and plane changes
+const ElementSetHistory: React.FC<ElementSetHistoryProps> = ({ noradId }) => {
+  const { dataSource } = useSatelliteStore();
+  const { histories, loading, errors, loadHistory } = useHistoryStore();
+  const source = getDataSource(dataSource);
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - DEFAULT_RANGE_DAYS * 86400000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+
+  const history = histories[noradId];
+  const isLoading = !!loading[noradId];
+  const error = errors[noradId];
+
+  const chartData = useMemo(
+    () => history?.points.map(point => ({ ...point, time: new Date(point.epoch).getTime() })) ?? [],
+    [history]
+  );
+  const chartConfig = useMemo<ChartConfig>(
+    () => Object.fromEntries(METRICS.map(metric => [metric.key, { label: metric.label, color: metric.color }])),
+    []
+  );
+
+  const handleLoad = () => {
+    // The end date is inclusive
+    loadHistory(source, noradId, new Date(`${from}T00:00:00Z`), new Date(`${to}T23:59:59Z`));
+  };
+
+  if (!source.fetchElementSetHistory) {
+    return (
+      <div className="text-xs text-muted-foreground">
+        Element set history is available with the Space-Track data source.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <span className="text-xs text-muted-foreground">From</span>
+          <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="h-7 text-xs" />
+        </div>
+        <div className="flex-1 space-y-1">
+          <span className="text-xs text-muted-foreground">To</span>
+          <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="h-7 text-xs" />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleLoad}
+          disabled={isLoading || !from || !to || from > to}
+          className="cosmic-border h-7 text-xs px-2"
+        >
+          {isLoading ? <Loader2 className="h-3 w-3 animate-spin" /> : <History className="h-3 w-3 mr-1" />}
+          {!isLoading && 'Load'}
+        </Button>
+      </div>
+
+      {error && <div className="text-xs text-danger-red">{error}</div>}
+
+      {history && (
+        <div className="text-xs text-muted-foreground">
+          {history.points.length} element sets,{' '}
+          {history.ranges.map(range => `${range.from.substring(0, 10)} to ${range.to.substring(0, 10)}`).join(', ')}
+        </div>
+      )}
+
+      {chartData.length > 1 && METRICS.map(metric => (
+        <div key={metric.key} className="space-y-1">
+          <div className="text-xs font-medium">{metric.label}</div>
+          <ChartContainer config={chartConfig} className="h-28 w-full aspect-auto">
+            <LineChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatEpoch}
+                tickLine={false}
+                minTickGap={24}
+              />
+              <YAxis
+                width={56}
+                domain={['auto', 'auto']}
+                tickFormatter={metric.format}
+                tickLine={false}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => payload?.[0] ? `${new Date(payload[0].payload.time).toISOString().substring(0, 16).replace('T', ' ')}Z` : ''}
+                    formatter={(value) => <span className="font-mono">{metric.format(Number(value))}</span>}
+                  />
+                }
+              />
+              <Line
+                dataKey={metric.key}
+                stroke={`var(--color-${metric.key})`}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      ))}
+
+      {history && chartData.length <= 1 && (
+        <div className="text-xs text-muted-foreground">Not enough element sets in this range to chart.</div>
+      )}
+    </div>
+  );
+};
+
+export default ElementSetHistory;
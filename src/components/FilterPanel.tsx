@@ -9,17 +9,31 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { useSatelliteStore } from '../stores/satelliteStore';
-import { SatelliteType } from '../types/satellite.types';
+import { CatalogObjectType, DataQualityLevel, RCSSize, SatelliteStatus, SatelliteType, SatelliteFilters, TwilightLevel } from '../types/satellite.types';
 import { spaceTrackAPI } from '../services/spaceTrackAPI';
+import { formatLaunchSite, OBJECT_TYPE_LABELS } from '../services/satcat';
+import { TWILIGHT_DEPRESSION } from '../services/visibility';
+
+type ListFilterKey = 'status' | 'objectTypes' | 'rcsSizes' | 'launchSites' | 'qualityLevels';
+
+const RCS_SIZE_OPTIONS: RCSSize[] = ['small', 'medium', 'large'];
+const STATUS_OPTIONS: SatelliteStatus[] = ['active', 'inactive', 'decayed', 'unknown'];
+const MANEUVER_WINDOW_OPTIONS = [1, 7, 30, 90];
+const TWILIGHT_OPTIONS: TwilightLevel[] = ['civil', 'nautical', 'astronomical'];
+const QUALITY_OPTIONS: { level: DataQualityLevel; label: string }[] = [
+  { level: 'ok', label: 'OK' },
+  { level: 'suspect', label: 'Suspect (stale epoch)' },
+  { level: 'invalid', label: 'Invalid (cannot propagate)' }
+];
 
 const FilterPanel: React.FC = () => {
-  const { filters, updateFilters, satellites } = useSatelliteStore();
+  const { filters, updateFilters, satellites, userLocation } = useSatelliteStore();
   const [isOpen, setIsOpen] = useState(false);
   
   // Optimized filter options generation with better memoization
   const filterOptions = useMemo(() => {
     if (satellites.length === 0) {
-      return { types: [], countries: [], agencies: [], statuses: [] };
+      return { types: [], countries: [], agencies: [], statuses: [], objectTypes: [], launchSites: [] };
     }
     
     // Use Set for better performance with large datasets
@@ -27,6 +41,8 @@ const FilterPanel: React.FC = () => {
     const countriesSet = new Set<string>();
     const agenciesSet = new Set<string>();
     const statusesSet = new Set<string>();
+    const objectTypesSet = new Set<CatalogObjectType>();
+    const launchSitesSet = new Set<string>();
     
     // Single pass through satellites for all filter options
     satellites.forEach(s => {
@@ -34,22 +50,30 @@ const FilterPanel: React.FC = () => {
       statusesSet.add(s.status);
       if (s.metadata?.country) countriesSet.add(s.metadata.country);
       if (s.metadata?.constellation) agenciesSet.add(s.metadata.constellation);
+      if (s.metadata?.objectType) objectTypesSet.add(s.metadata.objectType);
+      if (s.metadata?.launchSite) launchSitesSet.add(s.metadata.launchSite);
     });
     
     return {
       types: Array.from(typesSet).sort(),
       countries: Array.from(countriesSet).sort(),
       agencies: Array.from(agenciesSet).sort(),
-      statuses: Array.from(statusesSet).sort()
+      statuses: Array.from(statusesSet).sort(),
+      objectTypes: Array.from(objectTypesSet).sort(),
+      launchSites: Array.from(launchSitesSet).sort()
     };
-  }, [satellites.length]); // Only recalculate when satellite count changes, not content
+  }, [satellites]); // The catalog snapshot only changes identity when it is rebuilt
   
   const activeFilterCount = [
     ...filters.types,
     ...filters.countries,
     ...filters.agencies,
-    ...filters.status
-  ].length + (filters.searchQuery ? 1 : 0);
+    ...filters.status,
+    ...filters.objectTypes,
+    ...filters.rcsSizes,
+    ...filters.launchSites,
+    ...filters.qualityLevels
+  ].length + (filters.searchQuery ? 1 : 0) + (filters.maneuveredWithinDays !== null ? 1 : 0) + (filters.showOnlyVisible ? 1 : 0);
 
   const handleTypeChange = (type: string, checked: boolean) => {
     const newTypes = checked 
@@ -72,6 +96,12 @@ const FilterPanel: React.FC = () => {
     updateFilters({ agencies: newAgencies });
   };
 
+  const handleListFilterChange = (key: ListFilterKey, value: string, checked: boolean) => {
+    const current = filters[key] as string[];
+    const next = checked ? [...current, value] : current.filter(v => v !== value);
+    updateFilters({ [key]: next } as Partial<SatelliteFilters>);
+  };
+
   const handleAltitudeFilter = (range: string) => {
     let altitudeRange: [number, number];
     switch (range) {
@@ -89,7 +119,13 @@ const FilterPanel: React.FC = () => {
       countries: [],
       agencies: [],
       status: [],
+      objectTypes: [],
+      rcsSizes: [],
+      launchSites: [],
+      qualityLevels: [],
+      maneuveredWithinDays: null,
       searchQuery: '',
+      showOnlyVisible: false,
       altitudeRange: [0, 50000]
     });
   };
@@ -109,7 +145,7 @@ const FilterPanel: React.FC = () => {
         </Button>
       </PopoverTrigger>
       
-      <PopoverContent className="w-80 bg-background border border-border shadow-lg z-50" align="end">
+      <PopoverContent className="w-80 max-h-[70vh] overflow-y-auto bg-background border border-border shadow-lg z-50" align="end">
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h4 className="font-semibold text-foreground">Filter Satellites</h4>
@@ -170,6 +206,59 @@ const FilterPanel: React.FC = () => {
 
           <Separator />
 
+          {/* Maneuvers */}
+          <div className="space-y-2">
+            <h5 className="text-sm font-medium text-foreground">Maneuvered</h5>
+            <Select
+              value={filters.maneuveredWithinDays === null ? 'any' : String(filters.maneuveredWithinDays)}
+              onValueChange={(value) => updateFilters({ maneuveredWithinDays: value === 'any' ? null : Number(value) })}
+            >
+              <SelectTrigger className="bg-background">
+                <SelectValue placeholder="Any time or never" />
+              </SelectTrigger>
+              <SelectContent className="bg-background border border-border shadow-lg z-50">
+                <SelectItem value="any">Any time or never</SelectItem>
+                {MANEUVER_WINDOW_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    In the last {days === 1 ? 'day' : `${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Separator />
+
+          {/* Optical visibility */}
+          <div className="space-y-2">
+            <h5 className="text-sm font-medium text-foreground">Visible Now</h5>
+            <Select
+              value={filters.showOnlyVisible ? filters.visibilityTwilight : 'any'}
+              onValueChange={(value) => updateFilters(value === 'any'
+                ? { showOnlyVisible: false }
+                : { showOnlyVisible: true, visibilityTwilight: value as TwilightLevel })}
+            >
+              <SelectTrigger className="bg-background">
+                <SelectValue placeholder="Visible or not" />
+              </SelectTrigger>
+              <SelectContent className="bg-background border border-border shadow-lg z-50">
+                <SelectItem value="any">Visible or not</SelectItem>
+                {TWILIGHT_OPTIONS.map(twilight => (
+                  <SelectItem key={twilight} value={twilight}>
+                    Sunlit overhead, after {twilight} twilight (Sun {TWILIGHT_DEPRESSION[twilight]}° down)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {filters.showOnlyVisible && !userLocation && (
+              <p className="text-xs text-muted-foreground">
+                Needs your location: allow location access in the browser.
+              </p>
+            )}
+          </div>
+
+          <Separator />
+
           {/* Satellite Types */}
           <div className="space-y-2">
             <h5 className="text-sm font-medium text-foreground">Satellite Types</h5>
@@ -192,6 +281,28 @@ const FilterPanel: React.FC = () => {
             </div>
           </div>
 
+          {/* Status */}
+          <div className="space-y-2">
+            <h5 className="text-sm font-medium text-foreground">Status</h5>
+            <div className="space-y-2">
+              {STATUS_OPTIONS.map((status) => (
+                <div key={status} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`status-${status}`}
+                    checked={filters.status.includes(status)}
+                    onCheckedChange={(checked) => handleListFilterChange('status', status, !!checked)}
+                  />
+                  <label 
+                    htmlFor={`status-${status}`}
+                    className="text-sm text-muted-foreground capitalize cursor-pointer"
+                  >
+                    {status}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Countries */}
           <div className="space-y-2">
             <h5 className="text-sm font-medium text-foreground">Countries</h5>
@@ -235,6 +346,97 @@ const FilterPanel: React.FC = () => {
               ))}
             </div>
           </div>
+
+          <Separator />
+
+          {/* SATCAT */}
+          {filterOptions.objectTypes.length > 0 && (
+            <div className="space-y-2">
+              <h5 className="text-sm font-medium text-foreground">Object Type</h5>
+              <div className="space-y-2">
+                {filterOptions.objectTypes.map((objectType) => (
+                  <div key={objectType} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`object-type-${objectType}`}
+                      checked={filters.objectTypes.includes(objectType)}
+                      onCheckedChange={(checked) => handleListFilterChange('objectTypes', objectType, !!checked)}
+                    />
+                    <label 
+                      htmlFor={`object-type-${objectType}`}
+                      className="text-sm text-muted-foreground cursor-pointer"
+                    >
+                      {OBJECT_TYPE_LABELS[objectType]}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h5 className="text-sm font-medium text-foreground">Radar Cross-Section</h5>
+            <div className="space-y-2">
+              {RCS_SIZE_OPTIONS.map((size) => (
+                <div key={size} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`rcs-${size}`}
+                    checked={filters.rcsSizes.includes(size)}
+                    onCheckedChange={(checked) => handleListFilterChange('rcsSizes', size, !!checked)}
+                  />
+                  <label 
+                    htmlFor={`rcs-${size}`}
+                    className="text-sm text-muted-foreground capitalize cursor-pointer"
+                  >
+                    {size}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h5 className="text-sm font-medium text-foreground">Data Quality</h5>
+            <div className="space-y-2">
+              {QUALITY_OPTIONS.map(({ level, label }) => (
+                <div key={level} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`quality-${level}`}
+                    checked={filters.qualityLevels.includes(level)}
+                    onCheckedChange={(checked) => handleListFilterChange('qualityLevels', level, !!checked)}
+                  />
+                  <label 
+                    htmlFor={`quality-${level}`}
+                    className="text-sm text-muted-foreground cursor-pointer"
+                  >
+                    {label}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {filterOptions.launchSites.length > 0 && (
+            <div className="space-y-2">
+              <h5 className="text-sm font-medium text-foreground">Launch Sites</h5>
+              <div className="space-y-2">
+                {filterOptions.launchSites.map((site) => (
+                  <div key={site} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`site-${site}`}
+                      checked={filters.launchSites.includes(site)}
+                      onCheckedChange={(checked) => handleListFilterChange('launchSites', site, !!checked)}
+                    />
+                    <label 
+                      htmlFor={`site-${site}`}
+                      className="text-sm text-muted-foreground cursor-pointer"
+                    >
+                      {formatLaunchSite(site)}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </PopoverContent>
     </Popover>
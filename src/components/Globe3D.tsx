@@ -1,10 +1,14 @@
 import React, { useRef, useMemo, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
+import { Line, OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
-import * as satellite from 'satellite.js';
 import { useSatelliteStore } from '../stores/satelliteStore';
-import { Satellite } from '../types/satellite.types';
+import { Conjunction, Satellite } from '../types/satellite.types';
+import { predictFinalGroundTrack } from '../services/reentry';
+import { propagateGroundTrack } from '../services/groundTrack';
+import { conjunctionTrack, linkConjunction } from '../services/conjunctions';
+import { hasPosition } from '../services/tleValidation';
+import { frameIndex, framePosition } from '../services/propagationBatch';
 import ErrorBoundary from './ErrorBoundary';
 
 // Earth component with slow realistic rotation
@@ -27,39 +31,23 @@ const Earth: React.FC = () => {
   );
 };
 
-// Real-time satellite marker at exact reported coordinates
+// Real-time satellite marker at its propagated scene position
 interface SatelliteMarkerProps {
   satellite: Satellite;
+  position: [number, number, number] | null;
   isSelected: boolean;
+  isSuspect: boolean;
   onClick: () => void;
 }
 
 const SatelliteMarker: React.FC<SatelliteMarkerProps> = React.memo(({ 
   satellite, 
+  position,
   isSelected, 
+  isSuspect,
   onClick 
 }) => {
   const meshRef = useRef<THREE.Mesh>(null);
-  
-  // Calculate EXACT position from real coordinates and altitude
-  const position = useMemo(() => {
-    const { latitude, longitude, altitude } = satellite.position;
-    if (!latitude || !longitude || !altitude) return null;
-    
-    const earthRadius = 5;
-    const lat = (latitude * Math.PI) / 180;
-    const lon = (longitude * Math.PI) / 180;
-    
-    // Use EXACT altitude scaling: Earth radius = 6371km in real life, 5 units in scene
-    const radius = earthRadius + (altitude * 5) / 6371;
-    
-    // Convert spherical coordinates to Cartesian (standard GPS to 3D conversion)
-    const x = radius * Math.cos(lat) * Math.cos(lon);
-    const y = radius * Math.sin(lat);
-    const z = radius * Math.cos(lat) * Math.sin(lon);
-    
-    return [x, y, z] as [number, number, number];
-  }, [satellite.position]);
 
   // Satellite type colors
   const color = useMemo(() => {
@@ -73,7 +61,8 @@ const SatelliteMarker: React.FC<SatelliteMarkerProps> = React.memo(({
       'scientific': '#8b5cf6',
       'military': '#ef4444',
       'commercial': '#f59e0b',
-      'rocket-body': '#9ca3af'
+      'rocket-body': '#9ca3af',
+      'debris': '#78716c'
     };
     return colors[satellite.type as keyof typeof colors] || '#6b7280';
   }, [satellite.type]);
@@ -107,6 +96,14 @@ const SatelliteMarker: React.FC<SatelliteMarkerProps> = React.memo(({
           <meshBasicMaterial color={color} transparent opacity={0.3} />
         </mesh>
       )}
+      
+      {/* Stale element set: the marker may be well off the object's real position */}
+      {isSuspect && (
+        <mesh>
+          <sphereGeometry args={[0.045, 6, 6]} />
+          <meshBasicMaterial color="#ff6b00" wireframe transparent opacity={0.8} />
+        </mesh>
+      )}
     </group>
   );
 });
@@ -117,63 +114,11 @@ interface OrbitalPathProps {
 }
 
 const OrbitalPath: React.FC<OrbitalPathProps> = ({ satellite: sat }) => {
+  // One orbital period from the simulation time of the latest position update; the satrec comes from the cache
   const pathPoints = useMemo(() => {
-    const points: THREE.Vector3[] = [];
-    const earthRadius = 5;
-    
-    try {
-      // Create the satellite record from TLE data
-      const satrec = satellite.twoline2satrec(sat.tle.line1, sat.tle.line2);
-      
-      if (!satrec) {
-        console.warn('Failed to create satellite record');
-        return points;
-      }
-
-      const now = new Date();
-      const period = sat.orbital.period; // orbital period in minutes
-      const totalPoints = 60; // Reduced from 120 for better performance
-      
-      // Generate orbital path by propagating the satellite through one complete orbit
-      for (let i = 0; i <= totalPoints; i++) {
-        // Calculate time offset for this point (spread over one orbital period)
-        const timeOffsetMinutes = (i / totalPoints) * period;
-        const time = new Date(now.getTime() + timeOffsetMinutes * 60 * 1000);
-        
-        // Use SGP4 to propagate satellite position at this time
-        const positionAndVelocity = satellite.propagate(satrec, time);
-        
-        if (positionAndVelocity.position && typeof positionAndVelocity.position === 'object') {
-          const positionEci = positionAndVelocity.position as any;
-          
-          // Convert ECI coordinates to geodetic (lat/lon/alt)
-          const gmst = satellite.gstime(time);
-          const positionGd = satellite.eciToGeodetic(positionEci, gmst);
-          
-          const longitude = satellite.degreesLong(positionGd.longitude);
-          const latitude = satellite.degreesLat(positionGd.latitude);
-          const altitude = positionGd.height;
-          
-          // Validate the coordinates
-          if (!isNaN(latitude) && !isNaN(longitude) && !isNaN(altitude)) {
-            // Convert to our 3D coordinate system (same as satellite markers)
-            const lat = (latitude * Math.PI) / 180;
-            const lon = (longitude * Math.PI) / 180;
-            const radius = earthRadius + (altitude * 5) / 6371;
-            
-            const x = radius * Math.cos(lat) * Math.cos(lon);
-            const y = radius * Math.sin(lat);
-            const z = radius * Math.cos(lat) * Math.sin(lon);
-            
-            points.push(new THREE.Vector3(x, y, z));
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('Error calculating orbital path:', error);
-    }
-    
-    return points;
+    const start = sat.position.timestamp;
+    return propagateGroundTrack(sat, start, start + sat.orbital.period * 60 * 1000, 60)
+      .map(point => toScenePosition(point.latitude, point.longitude, point.altitude));
   }, [sat]);
 
   if (pathPoints.length === 0) return null;
@@ -195,6 +140,121 @@ const OrbitalPath: React.FC<OrbitalPathProps> = ({ satellite: sat }) => {
   );
 };
 
+// Convert geodetic coordinates to scene space (same scaling as the satellite markers)
+const toScenePosition = (latitude: number, longitude: number, altitude: number): THREE.Vector3 => {
+  const lat = (latitude * Math.PI) / 180;
+  const lon = (longitude * Math.PI) / 180;
+  const radius = 5 + (altitude * 5) / 6371;
+  return new THREE.Vector3(
+    radius * Math.cos(lat) * Math.cos(lon),
+    radius * Math.sin(lat),
+    radius * Math.cos(lat) * Math.sin(lon)
+  );
+};
+
+// Predicted final ground track for an object with a decay/TIP reentry prediction
+const ReentryTrack: React.FC<OrbitalPathProps> = ({ satellite: sat }) => {
+  // Only the element set and the prediction shape the track, not the live position
+  const { id, reentry } = sat;
+  const { line1, line2 } = sat.tle;
+  const { period } = sat.orbital;
+
+  const trackPoints = useMemo(
+    () => predictFinalGroundTrack({ id, tle: { line1, line2 } }, reentry, period)
+      .map(point => toScenePosition(point.latitude, point.longitude, point.altitude)),
+    [id, line1, line2, reentry, period]
+  );
+
+  // TIP messages report where the object is expected to come down
+  const impactPoint = useMemo(() => {
+    if (reentry?.latitude === undefined || reentry?.longitude === undefined) return null;
+    return toScenePosition(reentry.latitude, reentry.longitude, 0);
+  }, [reentry]);
+
+  if (trackPoints.length === 0 && !impactPoint) return null;
+
+  return (
+    <group>
+      {trackPoints.length > 1 && (
+        <Line points={trackPoints} color="#ff6b00" opacity={0.9} transparent lineWidth={2} />
+      )}
+      {impactPoint && (
+        <mesh position={impactPoint}>
+          <sphereGeometry args={[0.06, 12, 12]} />
+          <meshBasicMaterial color="#ff2d2d" />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+// Tracks of both objects around TCA and the line between them at closest approach
+interface ConjunctionGeometryProps {
+  conjunction: Conjunction;
+  primary?: Satellite;
+  secondary?: Satellite;
+}
+
+const TRACK_COLORS = ['#ffd400', '#ff2d2d'];
+
+interface ConjunctionTrack {
+  points: THREE.Vector3[];
+  atTca: THREE.Vector3 | null; // null when SGP4 stopped before TCA
+}
+
+// One object's track around TCA; only its element set shapes it, not the live position
+const useConjunctionTrack = (sat: Satellite | undefined, conjunction: Conjunction): ConjunctionTrack => {
+  const id = sat?.id;
+  const line1 = sat?.tle.line1;
+  const line2 = sat?.tle.line2;
+  return useMemo(() => {
+    if (!id || !line1 || !line2) return { points: [], atTca: null };
+    const track = conjunctionTrack({ id, tle: { line1, line2 } }, conjunction);
+    // The track is cut short at the first SGP4 error, so find TCA by time rather than position in the track
+    const tca = track.find(point => point.time === Date.parse(conjunction.tca));
+    return {
+      points: track.map(point => toScenePosition(point.latitude, point.longitude, point.altitude)),
+      atTca: tca ? toScenePosition(tca.latitude, tca.longitude, tca.altitude) : null
+    };
+  }, [id, line1, line2, conjunction]);
+};
+
+const ConjunctionGeometry: React.FC<ConjunctionGeometryProps> = ({ conjunction, primary, secondary }) => {
+  const tracks = [useConjunctionTrack(primary, conjunction), useConjunctionTrack(secondary, conjunction)];
+
+  // Both objects' positions at closest approach
+  const closestApproach = tracks.every(track => track.atTca)
+    ? tracks.map(track => track.atTca)
+    : null;
+
+  return (
+    <group>
+      {tracks.map(({ points }, index) => points.length > 1 && (
+        <Line key={index} points={points} color={TRACK_COLORS[index]} opacity={0.9} transparent lineWidth={2} />
+      ))}
+      {closestApproach && (
+        <>
+          <lineSegments>
+            <bufferGeometry>
+              <bufferAttribute
+                attach="attributes-position"
+                count={2}
+                array={new Float32Array(closestApproach.flatMap(p => [p.x, p.y, p.z]))}
+                itemSize={3}
+              />
+            </bufferGeometry>
+            <lineBasicMaterial color="#ffffff" />
+          </lineSegments>
+          <mesh position={closestApproach[0]}>
+            <sphereGeometry args={[0.08, 12, 12]} />
+            <meshBasicMaterial color="#ffd400" transparent opacity={0.25} />
+          </mesh>
+        </>
+      )}
+    </group>
+  );
+};
+
 // Camera controller for focusing on selected satellites
 const CameraController: React.FC = () => {
   const { camera } = useThree();
@@ -284,16 +344,36 @@ const CameraController: React.FC = () => {
 
 // Main scene component
 const Scene: React.FC = () => {
-  const { filteredSatellites, setSelectedSatellite, globeSettings } = useSatelliteStore();
+  const { satellites, filteredSatellites, propagationFrame, setSelectedSatellite, globeSettings, selectedConjunction } = useSatelliteStore();
+
+  // Scene position straight from the latest propagation frame, which arrives more often than the catalog
+  // snapshot is refreshed, or from the geodetic position before the first frame
+  const scenePosition = (sat: Satellite): [number, number, number] | null => {
+    const index = propagationFrame ? frameIndex(propagationFrame).get(sat.id) : undefined;
+    if (index !== undefined) return framePosition(propagationFrame, index);
+    return toScenePosition(sat.position.latitude, sat.position.longitude, sat.position.altitude).toArray() as [number, number, number];
+  };
+
+  // Catalog entries for both objects of the selected conjunction, regardless of filters
+  const conjunctionObjects = useMemo(() => {
+    if (!selectedConjunction) return null;
+    return linkConjunction(selectedConjunction, new Map(satellites.map(sat => [sat.id, sat])));
+  }, [satellites, selectedConjunction]);
 
   // Optimized satellite filtering with memoization
   const visibleSatellites = useMemo(() => {
     const { selectedSatelliteId } = globeSettings;
     
+    // A selected conjunction shows just its two objects
+    if (conjunctionObjects) {
+      return [conjunctionObjects.primary, conjunctionObjects.secondary]
+        .filter((sat): sat is Satellite => !!sat && hasPosition(sat));
+    }
+    
     // If a satellite is selected, only show that satellite
     if (selectedSatelliteId) {
       const selectedSat = filteredSatellites.find(sat => sat.id === selectedSatelliteId);
-      if (selectedSat && selectedSat?.position?.latitude && selectedSat?.position?.longitude && selectedSat?.position?.altitude) {
+      if (selectedSat && hasPosition(selectedSat)) {
         return [selectedSat];
       }
       // If selected satellite is not found or invalid, return empty array
@@ -302,11 +382,11 @@ const Scene: React.FC = () => {
     
     // If no satellite is selected, show all filtered satellites (limited for performance)
     const satellites = filteredSatellites
-      .filter(sat => sat?.position?.latitude && sat?.position?.longitude && sat?.position?.altitude)
+      .filter(hasPosition)
       .slice(0, 5000); // Reduced from 10,000
     
     return satellites;
-  }, [filteredSatellites, globeSettings.selectedSatelliteId]);
+  }, [filteredSatellites, globeSettings.selectedSatelliteId, conjunctionObjects]);
 
   // Memoize selected satellite lookup
   const selectedSatellite = useMemo(() => {
@@ -324,11 +404,20 @@ const Scene: React.FC = () => {
       {/* Show orbital path for selected satellite using proper SGP4 propagation */}
       {selectedSatellite && <OrbitalPath satellite={selectedSatellite} />}
       
+      {/* Predicted final ground track when the selected object has a reentry prediction */}
+      {selectedSatellite?.reentry && <ReentryTrack satellite={selectedSatellite} />}
+      
+      {selectedConjunction && conjunctionObjects && (
+        <ConjunctionGeometry conjunction={selectedConjunction} {...conjunctionObjects} />
+      )}
+      
       {visibleSatellites.map((satellite) => (
         <SatelliteMarker
           key={satellite.id}
           satellite={satellite}
-          isSelected={globeSettings.selectedSatelliteId === satellite.id}
+          position={scenePosition(satellite)}
+          isSelected={globeSettings.selectedSatelliteId === satellite.id || !!conjunctionObjects}
+          isSuspect={globeSettings.highlightSuspect && satellite.quality?.level === 'suspect'}
           onClick={() => {
             const newSelection = globeSettings.selectedSatelliteId === satellite.id ? null : satellite.id;
             setSelectedSatellite(newSelection);
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Rocket, Upload, Radio, AlertTriangle, MapPin, Building2, Package } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { useLaunchData } from '../hooks/useLaunchData';
+import { formatLaunchCountdown, linkLaunchObjects, parseLaunchFile, sortLaunches } from '../services/launches';
+import { Launch, LaunchStatus } from '../types/satellite.types';
+
+const MAX_LINKED_SHOWN = 12;
+
+const STATUS_STYLES: Record<LaunchStatus, string> = {
+  'scheduled': 'bg-neon-cyan/20 text-neon-cyan border-neon-cyan/30',
+  'in-flight': 'bg-neon-yellow/20 text-neon-yellow border-neon-yellow/30',
+  'successful': 'bg-terminal-green/20 text-terminal-green border-terminal-green/30',
+  'failed': 'bg-danger-red/20 text-danger-red border-danger-red/30',
+  'cancelled': 'bg-muted text-muted-foreground'
+};
+
+const formatLaunchDate = (date: Date) => `${date.toISOString().substring(0, 16).replace('T', ' ')}Z`;
+
+// Launch schedule with countdowns; successful launches link to the objects they put in the catalog
+const LaunchSchedule: React.FC = () => {
+  const {
+    launches,
+    launchFileName,
+    loadLaunchFile,
+    clearLaunchFile,
+    satellites,
+    setSelectedSatellite,
+    setViewMode
+  } = useSatelliteStore();
+  const { isLoading, error } = useLaunchData();
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const linkedObjects = useMemo(() => linkLaunchObjects(launches, satellites), [launches, satellites]);
+  // A launch stays upcoming until it has a result, even if it slips past its NET
+  const { upcoming, recent } = useMemo(() => {
+    const sorted = sortLaunches(launches);
+    return {
+      upcoming: sorted.filter(launch => launch.status === 'scheduled' || launch.status === 'in-flight'),
+      recent: sorted.filter(launch => launch.status !== 'scheduled' && launch.status !== 'in-flight').reverse()
+    };
+  }, [launches]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { launches: parsed, errors } = parseLaunchFile(await file.text());
+    setFileErrors(errors);
+    if (parsed.length > 0) loadLaunchFile(parsed, file.name);
+  };
+
+  const showOnGlobe = (noradId: string) => {
+    setSelectedSatellite(noradId);
+    setViewMode('globe');
+  };
+
+  const renderLaunch = (launch: Launch) => {
+    const objects = linkedObjects.get(launch.id) ?? [];
+    return (
+      <Card key={launch.id} className="glass-panel p-3 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h4 className="font-medium text-sm text-foreground truncate">{launch.name}</h4>
+            <div className="text-xs text-muted-foreground font-mono">
+              {formatLaunchDate(launch.launchDate)}
+              {launch.cosparId ? ` · ${launch.cosparId}` : ''}
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1 flex-shrink-0">
+            <Badge className={`text-xs ${STATUS_STYLES[launch.status]}`}>{launch.status}</Badge>
+            {launch.status === 'scheduled' && (
+              <span className="font-mono text-xs text-neon-cyan">{formatLaunchCountdown(launch.launchDate, now)}</span>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-1 text-xs text-muted-foreground">
+          <div className="flex items-center space-x-1">
+            <Rocket className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{launch.rocket}{launch.orbit ? ` to ${launch.orbit}` : ''}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <Building2 className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{launch.agency}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <MapPin className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{launch.launchSite}</span>
+          </div>
+          {launch.payloads.length > 0 && (
+            <div className="flex items-center space-x-1">
+              <Package className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">{launch.payloads.join(', ')}</span>
+            </div>
+          )}
+        </div>
+
+        {objects.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">Catalogued objects ({objects.length}):</div>
+            <div className="flex flex-wrap gap-1">
+              {objects.slice(0, MAX_LINKED_SHOWN).map(sat => (
+                <button
+                  key={sat.id}
+                  type="button"
+                  onClick={() => showOnGlobe(sat.id)}
+                  className="text-xs px-1.5 py-0.5 rounded border border-terminal-green/30 text-terminal-green hover:bg-terminal-green/10"
+                  title={`${sat.name} (${sat.metadata?.intlDesignator ?? 'no designator'}): show on globe`}
+                >
+                  {sat.id}
+                </button>
+              ))}
+              {objects.length > MAX_LINKED_SHOWN && (
+                <span className="text-xs text-muted-foreground">+{objects.length - MAX_LINKED_SHOWN} more</span>
+              )}
+            </div>
+          </div>
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-foreground flex items-center space-x-2">
+          <Rocket className="h-4 w-4 text-neon-cyan" />
+          <span>Launch Schedule</span>
+          <Badge variant="outline" className="text-xs">
+            {launchFileName ? `File: ${launchFileName}` : 'Launch Library 2'}
+          </Badge>
+        </h3>
+        <div className="flex items-center space-x-2">
+          {launchFileName && (
+            <Button variant="outline" size="sm" onClick={clearLaunchFile} className="cosmic-border h-7 text-xs">
+              <Radio className="h-3 w-3 mr-1" />
+              Live feed
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            className="cosmic-border h-7 text-xs"
+            title="Load a Launch Library 2 JSON response"
+          >
+            <Upload className="h-3 w-3 mr-1" />
+            Load file
+          </Button>
+        </div>
+      </div>
+
+      {fileErrors.length > 0 && (
+        <div className="text-xs text-danger-red" title={fileErrors.join('\n')}>
+          {fileErrors.length} launch record{fileErrors.length === 1 ? '' : 's'} skipped: {fileErrors[0]}
+        </div>
+      )}
+
+      {error && !launchFileName && launches.length === 0 ? (
+        <div className="text-sm text-danger-red flex items-center space-x-2">
+          <AlertTriangle className="h-4 w-4" />
+          <span>Launch schedule unavailable: {error.message}. Load a Launch Library 2 JSON file instead.</span>
+        </div>
+      ) : isLoading && launches.length === 0 ? (
+        <div className="text-sm text-muted-foreground">Loading launch schedule...</div>
+      ) : (
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="flex flex-col min-h-0">
+            <h4 className="text-sm font-medium text-neon-cyan mb-2">Upcoming ({upcoming.length})</h4>
+            <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {upcoming.length === 0
+                ? <div className="text-xs text-muted-foreground">No upcoming launches</div>
+                : upcoming.map(renderLaunch)}
+            </div>
+          </div>
+          <div className="flex flex-col min-h-0">
+            <h4 className="text-sm font-medium text-terminal-green mb-2">Recent ({recent.length})</h4>
+            <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {recent.length === 0
+                ? <div className="text-xs text-muted-foreground">No recent launches</div>
+                : recent.map(renderLaunch)}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LaunchSchedule;
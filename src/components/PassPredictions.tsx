@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { DEFAULT_PASS_DAYS, PASS_DAY_OPTIONS, predictPasses } from '../services/passes';
+import { Satellite } from '../types/satellite.types';
+
+interface PassPredictionsProps {
+  satellite: Satellite;
+}
+
+const DAY_MS = 86400000;
+
+const formatPassTime = (date: Date) => date.toISOString().substring(5, 19).replace('T', ' ');
+
+// Upcoming passes over the user's location, from the simulation time the satellite was last propagated for
+const PassPredictions: React.FC<PassPredictionsProps> = ({ satellite }) => {
+  const { userLocation } = useSatelliteStore();
+  const [days, setDays] = useState(DEFAULT_PASS_DAYS);
+
+  const time = satellite.position.timestamp;
+  // Predict from the start of the UTC day, one day further than shown, so the table is only
+  // recomputed when the clock crosses midnight and not on every position update, even under warp
+  const windowStart = Math.floor(time / DAY_MS) * DAY_MS;
+  // Only the element set shapes the passes, not the live position
+  const { id } = satellite;
+  const { line1, line2 } = satellite.tle;
+  const { period } = satellite.orbital;
+
+  const passes = useMemo(
+    () => (userLocation ? predictPasses({ id, tle: { line1, line2 } }, period, userLocation, windowStart, days + 1) : []),
+    [id, line1, line2, period, userLocation, windowStart, days]
+  );
+  const windowEnd = time + days * DAY_MS;
+  const upcoming = passes.filter(pass => pass.endTime.getTime() > time && pass.startTime.getTime() < windowEnd);
+
+  if (!userLocation) {
+    return (
+      <div className="text-xs text-muted-foreground">
+        Allow location access in the browser to predict passes over your location.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground">
+          From {userLocation.latitude.toFixed(2)}°, {userLocation.longitude.toFixed(2)}°
+        </span>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="h-7 w-24 text-xs bg-background">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PASS_DAY_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>{option} {option === 1 ? 'day' : 'days'}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {upcoming.length ? (
+        <table className="w-full font-mono">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-normal">Rise (UTC)</th>
+              <th className="text-left font-normal">Culm.</th>
+              <th className="text-left font-normal">Set</th>
+              <th className="text-right font-normal">Max El.</th>
+              <th className="text-right font-normal">Dur.</th>
+              <th className="text-right font-normal">Dir.</th>
+            </tr>
+          </thead>
+          <tbody>
+            {upcoming.map(pass => (
+              <tr key={pass.startTime.getTime()}>
+                <td>{formatPassTime(pass.startTime)}</td>
+                <td>{formatPassTime(pass.culminationTime).substring(6)}</td>
+                <td>{formatPassTime(pass.endTime).substring(6)}</td>
+                <td className={`text-right ${pass.maxElevation >= 30 ? 'text-terminal-green' : ''}`}>
+                  {pass.maxElevation.toFixed(0)}°
+                </td>
+                <td className="text-right">{pass.duration.toFixed(1)}m</td>
+                <td className="text-right" title={`Azimuth ${pass.riseAzimuth.toFixed(0)}° to ${pass.setAzimuth.toFixed(0)}°`}>
+                  {pass.direction}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-muted-foreground">
+          No passes above the horizon in the next {days} {days === 1 ? 'day' : 'days'}.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PassPredictions;
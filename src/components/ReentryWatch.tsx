@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Flame, AlertTriangle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { useReentryData } from '../hooks/useReentryData';
+import { formatCountdown, upcomingReentries } from '../services/reentry';
+
+const MAX_LISTED = 25;
+
+// Upcoming reentries from decay/TIP messages with live countdowns; selecting one shows its final ground track
+const ReentryWatch: React.FC = () => {
+  const { satellites, globeSettings, setSelectedSatellite } = useSatelliteStore();
+  const { data: predictions, isLoading, error } = useReentryData();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // TIP messages carry no object name, so fall back to the catalog entry
+  const catalogNames = useMemo(() => new Map(satellites.map(sat => [sat.id, sat.name])), [satellites]);
+  const upcoming = upcomingReentries(predictions ?? [], now).slice(0, MAX_LISTED);
+
+  // Sources without decay/TIP data (CelesTrak, local files) have nothing to show
+  if (!predictions && !isLoading && !error) return null;
+
+  return (
+    <Card className="glass-panel p-3 flex-shrink-0">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-sm text-foreground flex items-center space-x-2">
+          <Flame className="h-3 w-3 text-neon-orange" />
+          <span>Reentry Watch</span>
+        </h3>
+        <Badge variant="outline" className="text-xs text-neon-orange border-neon-orange/30">
+          {upcoming.length}
+        </Badge>
+      </div>
+
+      {error ? (
+        <div className="text-xs text-danger-red flex items-center space-x-1">
+          <AlertTriangle className="h-3 w-3" />
+          <span>Reentry predictions unavailable</span>
+        </div>
+      ) : isLoading ? (
+        <div className="text-xs text-muted-foreground">Loading decay and TIP messages...</div>
+      ) : upcoming.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No predicted reentries</div>
+      ) : (
+        <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+          {upcoming.map(prediction => {
+            const inCatalog = catalogNames.has(prediction.noradId);
+            const isSelected = globeSettings.selectedSatelliteId === prediction.noradId;
+            return (
+              <button
+                key={prediction.noradId}
+                type="button"
+                disabled={!inCatalog}
+                onClick={() => setSelectedSatellite(isSelected ? null : prediction.noradId)}
+                className={`w-full text-left p-1.5 rounded border text-xs transition-colors disabled:opacity-60 disabled:cursor-default ${
+                  isSelected ? 'border-neon-orange bg-neon-orange/10' : 'border-border/30 hover:bg-muted/30'
+                }`}
+                title={`${prediction.source === 'tip' ? 'TIP' : 'Decay'} message issued ${new Date(prediction.messageEpoch).toUTCString()}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium truncate">
+                    {prediction.name || catalogNames.get(prediction.noradId) || `NORAD ${prediction.noradId}`}
+                  </span>
+                  <span className="font-mono text-neon-orange ml-2">
+                    {formatCountdown(prediction.decayEpoch, now)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-muted-foreground">
+                  <span className="font-mono">
+                    {new Date(prediction.decayEpoch).toISOString().substring(0, 16).replace('T', ' ')}Z
+                    {prediction.windowMinutes ? ` ±${prediction.windowMinutes}m` : ''}
+                  </span>
+                  <span className="uppercase">
+                    {prediction.highInterest && <span className="text-danger-red mr-1">HI</span>}
+                    {prediction.source}
+                  </span>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default ReentryWatch;
@@ -10,6 +10,14 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Satellite, SatelliteType } from '../types/satellite.types';
 import { useSatelliteStore } from '../stores/satelliteStore';
+import { formatLaunchSite, OBJECT_TYPE_LABELS } from '../services/satcat';
+import { formatOpsStatus } from '../services/satelliteStatus';
+import { describeManeuver } from '../services/maneuvers';
+import { hasPosition } from '../services/tleValidation';
+import { formatHeading } from '../services/satelliteMotion';
+import ElementSetHistory from './ElementSetHistory';
+import PassPredictions from './PassPredictions';
+import DataQualityBadge from './DataQualityBadge';
 
 interface SatelliteDetailProps {
   satellite: Satellite;
@@ -17,7 +25,7 @@ interface SatelliteDetailProps {
 
 const SatelliteDetail: React.FC<SatelliteDetailProps> = ({ satellite }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const { setSelectedSatellite } = useSatelliteStore();
+  const { setSelectedSatellite, globeSettings, userLocation } = useSatelliteStore();
 
   const getSatelliteIcon = (type: SatelliteType) => {
     switch (type) {
@@ -244,6 +252,7 @@ const SatelliteDetail: React.FC<SatelliteDetailProps> = ({ satellite }) => {
 
   const satelliteInfo = getSatelliteInfo(satellite.name, satellite.type);
   const orbitalType = getOrbitalType(satellite.position.altitude);
+  const positionKnown = hasPosition(satellite);
 
   return (
     <Card className="w-full bg-background/95 backdrop-blur-sm border border-border max-h-[80vh] flex flex-col">
@@ -307,10 +316,11 @@ const SatelliteDetail: React.FC<SatelliteDetailProps> = ({ satellite }) => {
             <Badge variant="outline" className={`text-xs ${orbitalType.color}`}>
               {orbitalType.type}
             </Badge>
-            <Badge variant="outline" className="text-xs">
+            <Badge variant="outline" className="text-xs" title={satellite.statusReason}>
               <Activity className="h-3 w-3 mr-1" />
               {satellite.status}
             </Badge>
+            <DataQualityBadge quality={satellite.quality} />
           </div>
 
           {isExpanded && (
@@ -367,7 +377,7 @@ const SatelliteDetail: React.FC<SatelliteDetailProps> = ({ satellite }) => {
                 <div className="grid grid-cols-1 gap-2 text-xs">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Altitude:</span>
-                    <span className="font-mono">{satellite.position.altitude.toLocaleString()} km</span>
+                    <span className="font-mono">{positionKnown ? `${satellite.position.altitude.toLocaleString()} km` : 'N/A'}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Orbital Period:</span>
@@ -385,9 +395,19 @@ const SatelliteDetail: React.FC<SatelliteDetailProps> = ({ satellite }) => {
                     <span className="text-muted-foreground">Velocity:</span>
                     <span className="font-mono">{satellite.velocity?.toFixed(2) || 'N/A'} km/s</span>
                   </div>
-                  {satellite.footprint && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Ground Speed:</span>
+                    <span className="font-mono">{satellite.groundSpeed?.toFixed(2) || 'N/A'} km/s</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Heading:</span>
+                    <span className="font-mono">{formatHeading(satellite.heading)}</span>
+                  </div>
+                  {satellite.footprint !== undefined && (
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Coverage Radius:</span>
+                      <span className="text-muted-foreground" title={`Area that sees the satellite at least ${globeSettings.footprintMinElevation}° above the horizon`}>
+                        Coverage Radius:
+                      </span>
                       <span className="font-mono">{satellite.footprint.toFixed(0)} km</span>
                     </div>
                   )}
@@ -402,23 +422,95 @@ const SatelliteDetail: React.FC<SatelliteDetailProps> = ({ satellite }) => {
                   🌍 Current Position
                 </h4>
                 <div className="grid grid-cols-1 gap-2 text-xs">
+                  {positionKnown ? (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Latitude:</span>
+                        <span className="font-mono">{satellite.position.latitude.toFixed(4)}°</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Longitude:</span>
+                        <span className="font-mono">{satellite.position.longitude.toFixed(4)}°</span>
+                      </div>
+                      {satellite.sunlit !== undefined && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Illumination:</span>
+                          <span className={satellite.sunlit ? 'text-neon-yellow' : 'text-muted-foreground'}>
+                            {satellite.sunlit ? 'Sunlit' : "In Earth's shadow"}
+                          </span>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Last Update:</span>
+                        <span className="text-xs">{formatLastUpdate(satellite.position.timestamp)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-muted-foreground">No position: the element set could not be propagated.</div>
+                  )}
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Latitude:</span>
-                    <span className="font-mono">{satellite.position.latitude.toFixed(4)}°</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Longitude:</span>
-                    <span className="font-mono">{satellite.position.longitude.toFixed(4)}°</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Last Update:</span>
-                    <span className="text-xs">{formatLastUpdate(satellite.position.timestamp)}</span>
+                    <span className="text-muted-foreground">Data Quality:</span>
+                    <DataQualityBadge quality={satellite.quality} showOk />
                   </div>
+                  {satellite.quality?.reasons.map(reason => (
+                    <div key={reason} className="text-muted-foreground">• {reason}</div>
+                  ))}
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Look Angles */}
+              <div className="space-y-3">
+                <h4 className="font-semibold text-sm flex items-center">
+                  📡 Look Angles
+                </h4>
+                <div className="grid grid-cols-1 gap-2 text-xs">
+                  {positionKnown && satellite.lookAngles ? (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Azimuth:</span>
+                        <span className="font-mono">{formatHeading(satellite.lookAngles.azimuth)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Elevation:</span>
+                        <span className={`font-mono ${satellite.lookAngles.elevation > 0 ? 'text-terminal-green' : 'text-muted-foreground'}`}>
+                          {satellite.lookAngles.elevation.toFixed(1)}°{satellite.lookAngles.elevation > 0 ? '' : ' (below horizon)'}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Slant Range:</span>
+                        <span className="font-mono">{satellite.lookAngles.range.toFixed(0)} km</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground" title="Positive while the satellite moves away from you">Range Rate:</span>
+                        <span className="font-mono">
+                          {satellite.lookAngles.rangeRate > 0 ? '+' : ''}{satellite.lookAngles.rangeRate.toFixed(3)} km/s
+                        </span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-muted-foreground">
+                      {userLocation
+                        ? 'No position: the element set could not be propagated.'
+                        : 'Allow location access in the browser to see where the satellite is in your sky.'}
+                    </div>
+                  )}
                 </div>
               </div>
 
               <Separator />
 
+              {/* Passes */}
+              <div className="space-y-3">
+                <h4 className="font-semibold text-sm flex items-center">
+                  🛰️ Passes
+                </h4>
+                <PassPredictions satellite={satellite} />
+              </div>
+
+              <Separator />
+
               {/* Launch Information */}
               <div className="space-y-3">
                 <h4 className="font-semibold text-sm flex items-center">
@@ -429,12 +521,139 @@ const SatelliteDetail: React.FC<SatelliteDetailProps> = ({ satellite }) => {
                     <span className="text-muted-foreground">Launch Date:</span>
                     <span className="font-mono">{satellite.metadata?.launchDate ? new Date(satellite.metadata.launchDate).toLocaleDateString() : 'Unknown'}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Launch Site:</span>
+                    <span className="font-medium text-right">{formatLaunchSite(satellite.metadata?.launchSite)}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">NORAD ID:</span>
                     <span className="font-mono">{satellite.id}</span>
                   </div>
                 </div>
               </div>
+
+              <Separator />
+
+              {/* Catalog Record */}
+              <div className="space-y-3">
+                <h4 className="font-semibold text-sm flex items-center">
+                  🗂️ Catalog Record
+                </h4>
+                <div className="grid grid-cols-1 gap-2 text-xs">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Int'l Designator:</span>
+                    <span className="font-mono">{satellite.metadata?.intlDesignator || 'Unknown'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Object Type:</span>
+                    <span className="font-medium">
+                      {satellite.metadata?.objectType ? OBJECT_TYPE_LABELS[satellite.metadata.objectType] : 'Unknown'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Owner:</span>
+                    <span className="font-medium">{satellite.metadata?.owner || 'Unknown'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Radar Cross-Section:</span>
+                    <span className="font-medium capitalize">{satellite.metadata?.rcsSize || 'Unknown'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Operational Status:</span>
+                    <span className="font-medium">{formatOpsStatus(satellite.metadata?.opsStatusCode)}</span>
+                  </div>
+                  {satellite.statusReason && (
+                    <div className="text-muted-foreground">
+                      Status <span className="capitalize">{satellite.status}</span>: {satellite.statusReason}
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Decay Date:</span>
+                    <span className="font-mono">
+                      {satellite.metadata?.decayDate ? satellite.metadata.decayDate.substring(0, 10) : 'In orbit'}
+                    </span>
+                  </div>
+                  {satellite.reentry && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Predicted Reentry:</span>
+                        <span className="font-mono text-neon-orange">
+                          {new Date(satellite.reentry.decayEpoch).toISOString().substring(0, 16).replace('T', ' ')}Z
+                          {satellite.reentry.windowMinutes ? ` ±${satellite.reentry.windowMinutes}m` : ''}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Prediction Source:</span>
+                        <span className="font-medium uppercase">
+                          {satellite.reentry.source}
+                          {satellite.reentry.highInterest ? ' (high interest)' : ''}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Maneuvers */}
+              <div className="space-y-3">
+                <h4 className="font-semibold text-sm flex items-center">
+                  🚀 Detected Maneuvers
+                </h4>
+                <div className="grid grid-cols-1 gap-2 text-xs">
+                  {satellite.maneuvers?.length ? [...satellite.maneuvers].reverse().map(maneuver => (
+                    <div key={maneuver.id} className="space-y-0.5">
+                      <div className="flex justify-between">
+                        <span className="font-medium">{describeManeuver(maneuver)}</span>
+                        <span className="font-mono">Δv ≈ {maneuver.deltaV.toFixed(maneuver.deltaV < 10 ? 2 : 0)} m/s</span>
+                      </div>
+                      <div className="text-muted-foreground" title={`Between element sets at ${maneuver.epochBefore} and ${maneuver.epochAfter}`}>
+                        ~{maneuver.time.substring(0, 16).replace('T', ' ')}Z, from {maneuver.source === 'history' ? 'element set history' : 'catalog refreshes'}
+                      </div>
+                    </div>
+                  )) : (
+                    <div className="text-muted-foreground">
+                      None detected. Maneuvers are found by comparing successive element sets from refreshes or a loaded history range.
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Classification */}
+              <div className="space-y-3">
+                <h4 className="font-semibold text-sm flex items-center">
+                  🏷️ Classification
+                </h4>
+                <div className="grid grid-cols-1 gap-2 text-xs">
+                  {satellite.classification?.length ? satellite.classification.map(match => (
+                    <div key={match.field} className="space-y-0.5">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground capitalize">{match.field}:</span>
+                        <span className="font-medium">{match.value}</span>
+                      </div>
+                      <div className="text-muted-foreground" title={`Priority ${match.priority}`}>
+                        Rule <span className="font-mono">{match.ruleId}</span>
+                        {match.description ? `: ${match.description}` : ''}
+                      </div>
+                    </div>
+                  )) : (
+                    <div className="text-muted-foreground">Not classified</div>
+                  )}
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Element Set History */}
+              <div className="space-y-3">
+                <h4 className="font-semibold text-sm flex items-center">
+                  📈 Element Set History
+                </h4>
+                <ElementSetHistory noradId={satellite.id} />
+              </div>
             </div>
           )}
         </div>
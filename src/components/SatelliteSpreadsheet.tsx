@@ -5,15 +5,42 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useSatelliteStore } from '../stores/satelliteStore';
-import { Satellite, SatelliteType } from '../types/satellite.types';
+import { LookAngles, Satellite, SatelliteType } from '../types/satellite.types';
 import SatelliteDetail from './SatelliteDetail';
+import DataQualityBadge from './DataQualityBadge';
+import { formatLaunchSite, OBJECT_TYPE_LABELS } from '../services/satcat';
+import { hasPosition } from '../services/tleValidation';
+
+// Sortable columns read from Satellite.metadata
+const METADATA_SORT_FIELDS: Record<string, keyof Satellite['metadata']> = {
+  agency: 'constellation',
+  country: 'country',
+  intlDesignator: 'intlDesignator',
+  objectType: 'objectType',
+  rcsSize: 'rcsSize',
+  launchSite: 'launchSite',
+  decayDate: 'decayDate'
+};
+
+// Sortable columns read from Satellite.lookAngles; objects without them sort as lowest
+const LOOK_ANGLE_SORT_FIELDS: Record<string, keyof LookAngles> = {
+  azimuth: 'azimuth',
+  elevation: 'elevation',
+  range: 'range',
+  rangeRate: 'rangeRate'
+};
+
+const RCS_SIZE_ORDER = { small: 1, medium: 2, large: 3 };
+const QUALITY_ORDER = { ok: 0, suspect: 1, invalid: 2 };
 
 const SatelliteSpreadsheet: React.FC = () => {
   const { 
+    satellites,
     filteredSatellites, 
     filters, 
     updateFilters, 
     setSelectedSatellite,
+    applyFilters,
     globeSettings 
   } = useSatelliteStore();
 
@@ -47,7 +74,7 @@ const SatelliteSpreadsheet: React.FC = () => {
   const sortedSatellites = useMemo(() => {
     if (!sortField) return filteredSatellites;
 
-    return [...filteredSatellites].sort((a, b) => {
+    const compare = (a: Satellite, b: Satellite) => {
       let aVal: any;
       let bVal: any;
 
@@ -64,6 +91,18 @@ const SatelliteSpreadsheet: React.FC = () => {
       } else if (sortField === 'inclination') {
         aVal = a.orbital.inclination;
         bVal = b.orbital.inclination;
+      } else if (sortField === 'rcsSize') {
+        aVal = RCS_SIZE_ORDER[a.metadata?.rcsSize] ?? 0;
+        bVal = RCS_SIZE_ORDER[b.metadata?.rcsSize] ?? 0;
+      } else if (sortField === 'quality') {
+        aVal = QUALITY_ORDER[a.quality?.level] ?? 0;
+        bVal = QUALITY_ORDER[b.quality?.level] ?? 0;
+      } else if (LOOK_ANGLE_SORT_FIELDS[sortField]) {
+        aVal = a.lookAngles?.[LOOK_ANGLE_SORT_FIELDS[sortField]] ?? -Infinity;
+        bVal = b.lookAngles?.[LOOK_ANGLE_SORT_FIELDS[sortField]] ?? -Infinity;
+      } else if (METADATA_SORT_FIELDS[sortField]) {
+        aVal = a.metadata?.[METADATA_SORT_FIELDS[sortField]] ?? '';
+        bVal = b.metadata?.[METADATA_SORT_FIELDS[sortField]] ?? '';
       } else {
         aVal = a[sortField as keyof Satellite];
         bVal = b[sortField as keyof Satellite];
@@ -82,8 +121,13 @@ const SatelliteSpreadsheet: React.FC = () => {
       }
 
       return 0;
-    });
-  }, [filteredSatellites, sortField, sortDirection]);
+    };
+
+    // The display limit keeps the lowest objects, which says nothing about where they sit in the
+    // observer's sky, so look-angle sorts rank the whole filtered catalog before it is cut
+    if (LOOK_ANGLE_SORT_FIELDS[sortField]) return applyFilters(satellites, filters, compare);
+    return [...filteredSatellites].sort(compare);
+  }, [satellites, filteredSatellites, filters, applyFilters, sortField, sortDirection]);
 
   const formatAltitude = (altitude: number | undefined) => {
     if (!altitude) return 'N/A';
@@ -179,7 +223,25 @@ const SatelliteSpreadsheet: React.FC = () => {
                 <th className="text-left p-3 font-medium">
                   <SortButton field="country">Country</SortButton>
                 </th>
+                <th className="text-left p-3 font-medium">
+                  <SortButton field="intlDesignator">Int'l Des.</SortButton>
+                </th>
+                <th className="text-left p-3 font-medium">
+                  <SortButton field="objectType">Object</SortButton>
+                </th>
+                <th className="text-left p-3 font-medium">
+                  <SortButton field="rcsSize">RCS</SortButton>
+                </th>
+                <th className="text-left p-3 font-medium">
+                  <SortButton field="launchSite">Launch Site</SortButton>
+                </th>
+                <th className="text-left p-3 font-medium">
+                  <SortButton field="decayDate">Decay</SortButton>
+                </th>
                 <th className="text-left p-3 font-medium">Status</th>
+                <th className="text-left p-3 font-medium">
+                  <SortButton field="quality">Quality</SortButton>
+                </th>
                 <th className="text-right p-3 font-medium">
                   <SortButton field="altitude">Altitude</SortButton>
                 </th>
@@ -192,6 +254,18 @@ const SatelliteSpreadsheet: React.FC = () => {
                 <th className="text-right p-3 font-medium">
                   <SortButton field="inclination">Inclination</SortButton>
                 </th>
+                <th className="text-right p-3 font-medium">
+                  <SortButton field="azimuth">Azimuth</SortButton>
+                </th>
+                <th className="text-right p-3 font-medium">
+                  <SortButton field="elevation">Elevation</SortButton>
+                </th>
+                <th className="text-right p-3 font-medium">
+                  <SortButton field="range">Range</SortButton>
+                </th>
+                <th className="text-right p-3 font-medium">
+                  <SortButton field="rangeRate">Range Rate</SortButton>
+                </th>
                 <th className="text-center p-3 font-medium">Position</th>
                 <th className="text-center p-3 font-medium">Links</th>
                 <th className="text-center p-3 font-medium w-12">Details</th>
@@ -221,11 +295,25 @@ const SatelliteSpreadsheet: React.FC = () => {
                     </td>
                     <td className="p-3 text-muted-foreground">{satellite.metadata?.constellation || 'Unknown'}</td>
                     <td className="p-3 text-muted-foreground">{satellite.metadata?.country || 'Unknown'}</td>
+                    <td className="p-3 font-mono text-xs text-muted-foreground">{satellite.metadata?.intlDesignator || '—'}</td>
+                    <td className="p-3 text-xs text-muted-foreground">
+                      {satellite.metadata?.objectType ? OBJECT_TYPE_LABELS[satellite.metadata.objectType] : '—'}
+                    </td>
+                    <td className="p-3 text-xs text-muted-foreground capitalize">{satellite.metadata?.rcsSize || '—'}</td>
+                    <td className="p-3 text-xs text-muted-foreground">
+                      {satellite.metadata?.launchSite ? formatLaunchSite(satellite.metadata.launchSite) : '—'}
+                    </td>
+                    <td className="p-3 font-mono text-xs text-muted-foreground">
+                      {satellite.metadata?.decayDate ? satellite.metadata.decayDate.substring(0, 10) : '—'}
+                    </td>
                     <td className="p-3">
                       <Badge className={`text-xs ${getStatusColor(satellite.status)}`}>
                         {satellite.status}
                       </Badge>
                     </td>
+                    <td className="p-3">
+                      <DataQualityBadge quality={satellite.quality} showOk />
+                    </td>
                     <td className="p-3 text-right font-mono text-primary">
                       {formatAltitude(satellite.position.altitude)}
                     </td>
@@ -238,10 +326,26 @@ const SatelliteSpreadsheet: React.FC = () => {
                     <td className="p-3 text-right font-mono text-nebula-purple">
                       {satellite.orbital.inclination.toFixed(1)}°
                     </td>
+                    <td className="p-3 text-right font-mono text-xs text-muted-foreground">
+                      {satellite.lookAngles ? `${satellite.lookAngles.azimuth.toFixed(1)}°` : '—'}
+                    </td>
+                    <td className={`p-3 text-right font-mono text-xs ${satellite.lookAngles?.elevation > 0 ? 'text-terminal-green' : 'text-muted-foreground'}`}>
+                      {satellite.lookAngles ? `${satellite.lookAngles.elevation.toFixed(1)}°` : '—'}
+                    </td>
+                    <td className="p-3 text-right font-mono text-xs text-muted-foreground">
+                      {satellite.lookAngles ? `${satellite.lookAngles.range.toFixed(0)} km` : '—'}
+                    </td>
+                    <td className="p-3 text-right font-mono text-xs text-muted-foreground">
+                      {satellite.lookAngles ? `${satellite.lookAngles.rangeRate > 0 ? '+' : ''}${satellite.lookAngles.rangeRate.toFixed(2)} km/s` : '—'}
+                    </td>
                     <td className="p-3 text-center">
                       <div className="text-xs font-mono text-muted-foreground">
-                        {satellite.position.latitude.toFixed(2)}°,<br />
-                        {satellite.position.longitude.toFixed(2)}°
+                        {hasPosition(satellite) ? (
+                          <>
+                            {satellite.position.latitude.toFixed(2)}°,<br />
+                            {satellite.position.longitude.toFixed(2)}°
+                          </>
+                        ) : '—'}
                       </div>
                     </td>
                     <td className="p-3 text-center">
@@ -264,7 +368,7 @@ const SatelliteSpreadsheet: React.FC = () => {
                   </tr>
                   {expandedRows.has(satellite.id) && (
                     <tr className="border-b border-border/30">
-                      <td colSpan={12} className="p-0">
+                      <td colSpan={22} className="p-0">
                         <div className="bg-muted/20 p-4 max-h-96 overflow-y-auto">
                           <SatelliteDetail satellite={satellite} />
                         </div>
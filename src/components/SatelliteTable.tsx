@@ -8,6 +8,9 @@ import { Badge } from '@/components/ui/badge';
 import { useSatelliteStore } from '../stores/satelliteStore';
 import { Satellite, SatelliteType } from '../types/satellite.types';
 import SatelliteDetail from './SatelliteDetail';
+import DataQualityBadge from './DataQualityBadge';
+import { describeManeuver, latestManeuver, MANEUVER_FLAG_DAYS } from '../services/maneuvers';
+import { clockTime } from '../services/simulationClock';
 
 const SatelliteTable: React.FC = React.memo(() => {
   const { 
@@ -31,6 +34,17 @@ const SatelliteTable: React.FC = React.memo(() => {
     filteredCount: filteredSatellites.length
   }), [satellites.length, filteredSatellites.length]);
 
+  // Objects with a detected maneuver in the last MANEUVER_FLAG_DAYS, with a description for the badge
+  const recentManeuvers = useMemo(() => {
+    const flagged = new Map<string, string>();
+    const now = clockTime(globeSettings);
+    filteredSatellites.forEach(sat => {
+      const maneuver = latestManeuver(sat, MANEUVER_FLAG_DAYS, now);
+      if (maneuver) flagged.set(sat.id, `${describeManeuver(maneuver)} around ${maneuver.time.substring(0, 10)}`);
+    });
+    return flagged;
+  }, [filteredSatellites, globeSettings]);
+
   const handleSatelliteSelect = (satellite: Satellite) => {
     setSelectedSatellite(satellite.id);
   };
@@ -156,6 +170,15 @@ const SatelliteTable: React.FC = React.memo(() => {
                     <Badge className={`text-xs px-1.5 py-0.5 ${getStatusColor(satellite.status)}`}>
                       {satellite.status}
                     </Badge>
+                    <DataQualityBadge quality={satellite.quality} />
+                    {recentManeuvers.has(satellite.id) && (
+                      <Badge
+                        className="text-xs px-1.5 py-0.5 bg-neon-magenta/20 text-neon-magenta border-neon-magenta/30"
+                        title={recentManeuvers.get(satellite.id)}
+                      >
+                        maneuvered
+                      </Badge>
+                    )}
                   </div>
                 </div>
 
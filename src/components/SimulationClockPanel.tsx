@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Pause, Play, Radio } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import {
+  clockTime,
+  formatClockTime,
+  formatTimeSpeed,
+  isLive,
+  SCRUB_RANGE_HOURS,
+  TIME_SPEEDS
+} from '../services/simulationClock';
+
+const HOUR_MS = 3600000;
+
+// "2026-10-19T14:05" for a datetime-local input, read and written as UTC
+const toInputValue = (time: number) => new Date(time).toISOString().substring(0, 16);
+
+// Play/pause, time warp, jump-to-date and a timeline scrubber for the simulation clock
+const SimulationClockPanel: React.FC = () => {
+  const { globeSettings, setSimulationTime, setTimeSpeed, setPaused } = useSatelliteStore();
+  const [now, setNow] = useState(Date.now());
+  const [jumpValue, setJumpValue] = useState(() => toInputValue(Date.now()));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const live = isLive(globeSettings);
+  const time = clockTime(globeSettings, now);
+  const offsetHours = (time - now) / HOUR_MS;
+  const scrubValue = Math.max(-SCRUB_RANGE_HOURS, Math.min(SCRUB_RANGE_HOURS, offsetHours));
+
+  const handleJump = (event: React.FormEvent) => {
+    event.preventDefault();
+    const target = Date.parse(`${jumpValue}:00Z`);
+    if (!isNaN(target)) setSimulationTime(target);
+  };
+
+  const formatOffset = () => {
+    const minutes = Math.round((time - now) / 60000);
+    if (minutes === 0) return 'now';
+    const hours = Math.floor(Math.abs(minutes) / 60);
+    const rest = Math.abs(minutes) % 60;
+    return `${minutes > 0 ? '+' : '−'}${hours > 0 ? `${hours}h ` : ''}${rest}m`;
+  };
+
+  return (
+    <Card className="glass-panel p-3">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-sm text-foreground flex items-center space-x-2">
+            <Clock className="h-3 w-3 text-primary" />
+            <span>Simulation Time</span>
+          </h3>
+          <Badge variant="outline" className={`text-xs ${live ? 'text-terminal-green' : 'text-neon-yellow'}`}>
+            {live ? 'LIVE' : globeSettings.isPaused ? 'PAUSED' : formatTimeSpeed(globeSettings.timeSpeed)}
+          </Badge>
+        </div>
+
+        <div className="text-center space-y-0.5">
+          <div className="font-mono text-sm text-primary">{formatClockTime(time)}</div>
+          <div className="text-xs text-muted-foreground">{formatOffset()}</div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPaused(!globeSettings.isPaused)}
+            className="cosmic-border h-7 w-7 p-0"
+            title={globeSettings.isPaused ? 'Resume' : 'Pause'}
+          >
+            {globeSettings.isPaused ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+          </Button>
+          <Select
+            value={String(globeSettings.timeSpeed)}
+            onValueChange={(value) => setTimeSpeed(Number(value))}
+          >
+            <SelectTrigger className="h-7 text-xs bg-background flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_SPEEDS.map(speed => (
+                <SelectItem key={speed} value={String(speed)}>{formatTimeSpeed(speed)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSimulationTime(null)}
+            disabled={live}
+            className="cosmic-border h-7 text-xs px-2"
+            title="Return to real time"
+          >
+            <Radio className="h-3 w-3 mr-1" />
+            Live
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          <Slider
+            min={-SCRUB_RANGE_HOURS}
+            max={SCRUB_RANGE_HOURS}
+            step={0.25}
+            value={[scrubValue]}
+            onValueChange={([hours]) => setSimulationTime(Date.now() + hours * HOUR_MS)}
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>−{SCRUB_RANGE_HOURS}h</span>
+            <span>now</span>
+            <span>+{SCRUB_RANGE_HOURS}h</span>
+          </div>
+        </div>
+
+        <form onSubmit={handleJump} className="flex items-center space-x-2">
+          <input
+            type="datetime-local"
+            value={jumpValue}
+            onChange={(event) => setJumpValue(event.target.value)}
+            className="flex-1 min-w-0 h-7 rounded border border-border bg-background px-2 text-xs font-mono"
+            title="Date and time to jump to, in UTC"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            className="cosmic-border h-7 text-xs px-2"
+          >
+            Jump (UTC)
+          </Button>
+        </form>
+      </div>
+    </Card>
+  );
+};
+
+export default SimulationClockPanel;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { KeyRound } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { spaceTrackAPI } from '../services/spaceTrackAPI';
+
+const SpaceTrackAccountDialog: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [identity, setIdentity] = useState(spaceTrackAPI.getIdentity() ?? '');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const activeIdentity = spaceTrackAPI.getIdentity();
+
+  const refetch = () => {
+    setPassword('');
+    setError(null);
+    setIsOpen(false);
+    queryClient.invalidateQueries({ queryKey: ['satellites', 'space-track'] });
+  };
+
+  const signIn = async () => {
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      await spaceTrackAPI.signIn({ identity: identity.trim(), password });
+      refetch();
+    } catch (error) {
+      setError(error.message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const useDeploymentAccount = () => {
+    spaceTrackAPI.signOut();
+    refetch();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="cosmic-border h-6 text-xs px-2 w-full"
+        >
+          <KeyRound className="h-3 w-3 mr-1" />
+          <span className="truncate">{activeIdentity ?? 'Deployment account'}</span>
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="bg-background border border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle>Space-Track Account</DialogTitle>
+          <DialogDescription>
+            Query Space-Track with your own account instead of the one configured for this deployment.
+            Your password is checked once to start a session and is not stored in the browser.
+            This only works where the deployment allows it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="space-track-identity">Username (email)</Label>
+            <Input
+              id="space-track-identity"
+              value={identity}
+              onChange={(e) => setIdentity(e.target.value)}
+              autoComplete="username"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="space-track-password">Password</Label>
+            <Input
+              id="space-track-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+          {error && <p className="text-xs text-danger-red">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {activeIdentity && (
+            <Button variant="ghost" onClick={useDeploymentAccount}>
+              Use deployment account
+            </Button>
+          )}
+          <Button
+            onClick={signIn}
+            disabled={!identity.trim() || !password || isSigningIn}
+          >
+            {isSigningIn ? 'Signing in…' : 'Use this account'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SpaceTrackAccountDialog;
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { getDataSource } from '../services/dataSources';
+import { Conjunction } from '../types/satellite.types';
+
+// Public CDMs for the selected source; sources without them return nothing
+export const useConjunctionData = () => {
+  const { dataSource } = useSatelliteStore();
+  const source = getDataSource(dataSource);
+
+  return useQuery({
+    queryKey: ['conjunctions', dataSource],
+    queryFn: (): Promise<Conjunction[]> => source.fetchConjunctions(),
+    enabled: !!source.fetchConjunctions,
+    refetchInterval: 30 * 60 * 1000, // CDMs are reissued as screening is rerun
+    staleTime: 10 * 60 * 1000,
+    retry: 1
+  });
+};
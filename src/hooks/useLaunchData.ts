@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { fetchLaunchSchedule } from '../services/launches';
+
+// Launch Library 2 schedule, written to the store unless a launch file has been loaded
+export const useLaunchData = () => {
+  const { launchFileName, setLaunches } = useSatelliteStore();
+
+  const query = useQuery({
+    queryKey: ['launches'],
+    queryFn: fetchLaunchSchedule,
+    enabled: !launchFileName,
+    refetchInterval: 30 * 60 * 1000, // each fetch is two requests against a 15/hour limit
+    staleTime: 15 * 60 * 1000,
+    retry: 1
+  });
+
+  useEffect(() => {
+    if (query.data && !launchFileName) setLaunches(query.data);
+  }, [query.data, launchFileName, setLaunches]);
+
+  return query;
+};
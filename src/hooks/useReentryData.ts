@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSatelliteStore } from '../stores/satelliteStore';
+import { getDataSource } from '../services/dataSources';
+import { ReentryPrediction } from '../types/satellite.types';
+
+// Decay/TIP predictions for the selected source; sources without them return nothing
+export const useReentryData = () => {
+  const { dataSource } = useSatelliteStore();
+  const source = getDataSource(dataSource);
+
+  return useQuery({
+    queryKey: ['reentries', dataSource],
+    queryFn: (): Promise<ReentryPrediction[]> => source.fetchReentries(),
+    enabled: !!source.fetchReentries,
+    refetchInterval: 30 * 60 * 1000, // TIP messages are reissued as reentry approaches
+    staleTime: 10 * 60 * 1000,
+    retry: 1
+  });
+};
@@ -1,37 +1,82 @@
-import { useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSatelliteStore } from '../stores/satelliteStore';
-import { spaceTrackAPI } from '../services/spaceTrackAPI';
+import { getDataSource } from '../services/dataSources';
+import { catalogCache, CachedCatalog } from '../services/catalogCache';
+import { CatalogSnapshot, syncCatalog } from '../services/catalogSync';
+import { attachReentryPredictions } from '../services/reentry';
+import { propagateSatellite } from '../services/tleValidation';
+import { propagationEngine } from '../services/propagationEngine';
+import { applyPropagationFrame } from '../services/propagationBatch';
+import { clockTime, updateInterval } from '../services/simulationClock';
+import { classifySatellite } from '../services/classification';
+import { attachHistoryManeuvers } from '../services/maneuvers';
+import { useHistoryStore } from '../stores/historyStore';
+import { useReentryData } from './useReentryData';
+import { Satellite } from '../types/satellite.types';
+
+// Stable fallback so the merged list below is not rebuilt on every render
+const EMPTY_CATALOG: Satellite[] = [];
+
+// How often the catalog snapshot behind the lists and filters is rebuilt from the latest frame
+const SNAPSHOT_INTERVAL_MS = 5000;
 
 export const useSatelliteData = () => {
-  const { setSatellites, setError, setLoading } = useSatelliteStore();
+  const { setSatellites, setPropagationFrame, setError, setLoading, setCatalogInfo, setUserLocation, userLocation, dataSource, importedSatellites, globeSettings } = useSatelliteStore();
+  const { simulationTime, clockAnchor, timeSpeed, isPaused, footprintMinElevation } = globeSettings;
+  const [cachedCatalog, setCachedCatalog] = useState<CachedCatalog | null>(null);
+  const queryClient = useQueryClient();
+  const { data: reentryPredictions } = useReentryData();
+  const histories = useHistoryStore(state => state.histories);
+
+  // Hydrate from the last cached catalog for this source while the network refresh runs
+  useEffect(() => {
+    let cancelled = false;
+    setCachedCatalog(null);
+    
+    catalogCache.load(dataSource).then(cached => {
+      if (cancelled || !cached) return;
+      const now = new Date(clockTime(useSatelliteStore.getState().globeSettings));
+      // Reclassify so edits to the rules apply to cached catalogs too, and place them at the simulation time
+      const satellites = cached.satellites.map(sat => propagateSatellite(classifySatellite(sat), now));
+      console.log(`Hydrated ${satellites.length} satellites from cache (${new Date(cached.fetchedAt).toISOString()})`);
+      setCachedCatalog({ ...cached, satellites });
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource]);
 
-  // Fetch satellite data
+  // Fetch satellite data from the selected source
   const { 
-    data: satellites = [], 
+    data: snapshot, 
+    dataUpdatedAt,
     error: satelliteError, 
     isLoading: satelliteLoading,
     refetch: refetchSatellites 
   } = useQuery({
-    queryKey: ['satellites', 'unlimited'],
-    queryFn: async () => {
-      console.log('Starting satellite data fetch...');
+    queryKey: ['satellites', dataSource],
+    queryFn: async (): Promise<CatalogSnapshot> => {
+      const source = getDataSource(dataSource);
+      console.log(`Starting satellite data fetch from ${source.label}...`);
       
-      // Test connectivity first
       try {
-        console.log('Testing connectivity to API...');
-        const testResponse = await fetch('/api/space-track-proxy', {
-          method: 'OPTIONS'
+        // Refresh incrementally from the previous result, or from the cache on a cold start
+        let previous = queryClient.getQueryData<CatalogSnapshot>(['satellites', dataSource]) ?? null;
+        if (!previous) {
+          const cached = await catalogCache.load(dataSource);
+          previous = cached ? { satellites: cached.satellites, fullFetchAt: cached.fullFetchAt ?? 0, updatedCount: 0 } : null;
+        }
+        
+        const result = await syncCatalog(source, previous);
+        console.log(`Successfully fetched ${result.updatedCount} satellites (${result.satellites.length} in catalog)`);
+        catalogCache.save({
+          source: dataSource,
+          fetchedAt: Date.now(),
+          fullFetchAt: result.fullFetchAt,
+          satellites: result.satellites
         });
-        console.log('Connectivity test result:', testResponse.status);
-      } catch (error) {
-        console.error('Connectivity test failed:', error);
-        throw new Error('Cannot connect to satellite data service. The service may be temporarily unavailable.');
-      }
-      
-      try {
-        const result = await spaceTrackAPI.getAllActiveSatellites();
-        console.log(`Successfully fetched ${result.length} satellites`);
         return result;
       } catch (error) {
         console.error('Satellite fetch error:', error);
@@ -45,11 +90,37 @@ export const useSatelliteData = () => {
         throw error;
       }
     },
-    refetchInterval: 10 * 60 * 1000, // 10 minutes - reduced frequency for performance
-    staleTime: 0, // Force immediate refresh to see the change
+    refetchInterval: 10 * 60 * 1000, // 10 minutes - only element sets created since the last refresh are requested
+    staleTime: 0,
     retry: 3
   });
 
+  const fetchedCatalog = snapshot?.satellites;
+  const catalog = fetchedCatalog ?? cachedCatalog?.satellites ?? EMPTY_CATALOG;
+  const isLoading = satelliteLoading && catalog.length === 0;
+
+  // Track where the displayed catalog came from and whether it is still current
+  useEffect(() => {
+    if (fetchedCatalog) {
+      setCatalogInfo({ source: dataSource, fetchedAt: dataUpdatedAt, freshness: satelliteError ? 'stale' : 'live' });
+    } else if (cachedCatalog) {
+      setCatalogInfo({ source: dataSource, fetchedAt: cachedCatalog.fetchedAt, freshness: satelliteError ? 'stale' : 'cached' });
+    } else {
+      setCatalogInfo(null);
+    }
+  }, [fetchedCatalog, cachedCatalog, dataUpdatedAt, satelliteError, dataSource, setCatalogInfo]);
+
+  // Merge imported element sets over the fetched catalog and attach reentry predictions and history maneuvers
+  const satellites = useMemo(() => {
+    let merged = catalog;
+    if (importedSatellites.length > 0) {
+      const importedIds = new Set(importedSatellites.map(sat => sat.id));
+      merged = [...catalog.filter(sat => !importedIds.has(sat.id)), ...importedSatellites];
+    }
+    if (reentryPredictions) merged = attachReentryPredictions(merged, reentryPredictions);
+    return attachHistoryManeuvers(merged, histories);
+  }, [catalog, importedSatellites, reentryPredictions, histories]);
+
   // Update store with satellite data
   useEffect(() => {
     if (satellites.length > 0) {
@@ -59,83 +130,82 @@ export const useSatelliteData = () => {
 
   // Update store with loading state
   useEffect(() => {
-    setLoading(satelliteLoading);
-  }, [satelliteLoading, setLoading]);
+    setLoading(isLoading);
+  }, [isLoading, setLoading]);
 
-  // Update store with error state
+  // Update store with error state - with a cached catalog we keep tracking and flag it as stale instead
   useEffect(() => {
-    if (satelliteError) {
+    if (satelliteError && catalog.length === 0) {
       setError(`Failed to load satellite data: ${satelliteError.message}`);
     } else {
       setError(null);
     }
-  }, [satelliteError, setError]);
+  }, [satelliteError, catalog.length, setError]);
 
-  // Optimized real-time position updates with error handling and reduced frequency
+  // Give the propagation workers the new element sets before the next time step is requested
+  useEffect(() => {
+    if (satellites.length > 0) propagationEngine.load(satellites);
+  }, [satellites]);
+
+  // Position updates at the simulation clock's time; SGP4 runs in the propagation workers, off the main thread
   useEffect(() => {
     if (satellites.length === 0) return;
+    let cancelled = false;
+    let lastSnapshot = 0;
+    const clock = { simulationTime, clockAnchor, timeSpeed, isPaused };
 
     const updatePositions = async () => {
       try {
-        // Process satellites in smaller batches to avoid blocking (reduced for performance)
-        const batchSize = 50; // Reduced from 100
-        const updatedSatellites = [...satellites];
+        const frame = await propagationEngine.propagate(clockTime(clock), userLocation);
         
-        for (let i = 0; i < satellites.length; i += batchSize) {
-          const batch = satellites.slice(i, i + batchSize);
-          
-          batch.forEach((sat, index) => {
-            try {
-              // Only update if TLE data is valid
-              if (sat.tle?.line1 && sat.tle?.line2 && sat.tle.line1.length > 10 && sat.tle.line2.length > 10) {
-                const position = spaceTrackAPI.calculatePosition(sat.tle.line1, sat.tle.line2);
-                const actualIndex = i + index;
-                updatedSatellites[actualIndex] = {
-                  ...sat,
-                  position: {
-                    ...position,
-                    timestamp: Date.now()
-                  }
-                };
-              }
-            } catch (error) {
-              // Silently fail for individual satellites to avoid console spam
-              // Keep original position data
-            }
-          });
-          
-          // Yield control to prevent blocking
-          await new Promise(resolve => setTimeout(resolve, 0));
-        }
+        // A newer catalog may have arrived while the workers were busy
+        if (!frame || cancelled) return;
         
-        setSatellites(updatedSatellites);
+        // The globe draws every frame straight from its buffers; the lists, spreadsheet and filters
+        // work on a snapshot that is only rebuilt every few seconds while time is warped
+        if (Date.now() - lastSnapshot < SNAPSHOT_INTERVAL_MS) {
+          setPropagationFrame(frame);
+          return;
+        }
+        lastSnapshot = Date.now();
+        // Failed propagations are flagged on the satellite instead of moving it
+        setSatellites(applyPropagationFrame(satellites, frame, footprintMinElevation), frame);
       } catch (error) {
         console.error('Error updating satellite positions:', error);
       }
     };
 
-    // Reduced frequency from 10 seconds to 15 seconds for weaker devices
-    const interval = setInterval(updatePositions, 15000);
-    return () => clearInterval(interval);
-  }, [satellites.length, setSatellites]); // Only depend on satellites.length, not the entire array
+    // Propagate right away so merged or cached element sets don't show their fetch-time positions
+    updatePositions();
+    
+    // Every 15 seconds in real time, every second while time is warped, not at all while paused
+    const period = updateInterval(clock);
+    const interval = period !== null ? setInterval(updatePositions, period) : undefined;
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [satellites, setSatellites, setPropagationFrame, simulationTime, clockAnchor, timeSpeed, isPaused, footprintMinElevation, userLocation]); // The array only changes identity when the catalog is refreshed
 
-  // Get user location
+  // Get user location; it is the observer for look angles and pass predictions
   useEffect(() => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          // User location logic can be added here if needed
+          const { latitude, longitude, altitude } = position.coords;
+          // Browsers report metres, or null when they cannot tell
+          setUserLocation({ latitude, longitude, altitude: altitude ? altitude / 1000 : 0 });
         },
         (error) => {
           console.warn('Could not get user location:', error);
         }
       );
     }
-  }, []);
+  }, [setUserLocation]);
 
   return {
     satellites,
-    isLoading: satelliteLoading,
+    isLoading,
     error: satelliteError,
     refetch: refetchSatellites
   };
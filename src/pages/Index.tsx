@@ -1,5 +1,5 @@
 import React, { Suspense, useMemo } from 'react';
-import { Satellite, Loader2, Activity, Table, Globe, BookOpen } from 'lucide-react';
+import { Satellite, Loader2, Activity, Table, Globe, BookOpen, Rocket } from 'lucide-react';
 
 // Lazy load heavy components for better initial load
 const SatelliteTable = React.lazy(() => import('../components/SatelliteTable'));
@@ -9,11 +9,14 @@ const ControlPanel = React.lazy(() => import('../components/ControlPanel'));
 const AudioPlayer = React.lazy(() => import('../components/AudioPlayer'));
 const UIGuide = React.lazy(() => import('../components/UIGuide'));
 const SatelliteEducation = React.lazy(() => import('../components/SatelliteEducation'));
+const ReentryWatch = React.lazy(() => import('../components/ReentryWatch'));
+const ConjunctionList = React.lazy(() => import('../components/ConjunctionList'));
+const LaunchSchedule = React.lazy(() => import('../components/LaunchSchedule'));
 import ErrorBoundary from '../components/ErrorBoundary';
+import CatalogStatusBadge from '../components/CatalogStatusBadge';
 import { useSatelliteData } from '../hooks/useSatelliteData';
 import { useSatelliteStore } from '../stores/satelliteStore';
 import { Card } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import spaceHero from '../assets/space-hero.jpg';
 
@@ -118,6 +121,15 @@ const Index = React.memo(() => {
                   <Table className="h-4 w-4 mr-2" />
                   DATA GRID
                 </Button>
+                <Button
+                  variant={viewMode === 'launches' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setViewMode('launches')}
+                  className={`terminal-button h-8 px-3 text-xs ${viewMode === 'launches' ? 'bg-terminal-green/20 border-neon-cyan text-neon-cyan' : ''}`}
+                >
+                  <Rocket className="h-4 w-4 mr-2" />
+                  LAUNCHES
+                </Button>
                 <Button
                   variant={viewMode === 'guide' ? 'default' : 'ghost'}
                   size="sm"
@@ -137,10 +149,7 @@ const Index = React.memo(() => {
                   EDUCATION
                 </Button>
               </div>
-              <Badge className="terminal-button bg-danger-red/20 border-danger-red text-danger-red animate-terminal-flicker">
-                <Activity className="h-3 w-3 mr-1" />
-                LIVE FEED
-              </Badge>
+              <CatalogStatusBadge />
             </div>
           </div>
         </div>
@@ -160,6 +169,14 @@ const Index = React.memo(() => {
               <SatelliteEducation />
             </Suspense>
           </div>
+        ) : viewMode === 'launches' ? (
+          <div className="terminal-panel h-[calc(100vh-160px)] bg-black">
+            <div className="p-6 h-full font-terminal">
+              <Suspense fallback={<LoadingSpinner />}>
+                <LaunchSchedule />
+              </Suspense>
+            </div>
+          </div>
         ) : viewMode === 'spreadsheet' ? (
           <div className="terminal-panel h-[calc(100vh-160px)] bg-black">
             <div className="p-6 h-full font-terminal">
@@ -185,9 +202,17 @@ const Index = React.memo(() => {
                   ) : hasNoSatellites ? (
                     <ErrorFallback error="No satellite data available. Please try refreshing the page." />
                   ) : (
-                    <Suspense fallback={<LoadingSpinner />}>
-                      <SatelliteTable />
-                    </Suspense>
+                    <div className="h-full flex flex-col gap-3">
+                      <Suspense fallback={null}>
+                        <ReentryWatch />
+                        <ConjunctionList />
+                      </Suspense>
+                      <div className="flex-1 min-h-0">
+                        <Suspense fallback={<LoadingSpinner />}>
+                          <SatelliteTable />
+                        </Suspense>
+                      </div>
+                    </div>
                   )}
                 </div>
               </div>
@@ -0,0 +1,83 @@
+import { Satellite, SatelliteDataSourceId } from '../types/satellite.types';
+
+const DB_NAME = 'alchemist-satellite-cache';
+const DB_VERSION = 1;
+const CATALOG_STORE = 'catalogs';
+
+export interface CachedCatalog {
+  source: SatelliteDataSourceId;
+  fetchedAt: number;
+  fullFetchAt?: number; // last complete download, as opposed to incremental updates
+  satellites: Satellite[];
+}
+
+// Persists the last successful catalog per data source so the tracker can start
+// (and keep propagating) without a network round trip.
+export class CatalogCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+            db.createObjectStore(CATALOG_STORE, { keyPath: 'source' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(CATALOG_STORE, mode);
+      const request = operation(transaction.objectStore(CATALOG_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async load(source: SatelliteDataSourceId): Promise<CachedCatalog | null> {
+    try {
+      const cached = await this.run<CachedCatalog | undefined>('readonly', store => store.get(source));
+      return cached && Array.isArray(cached.satellites) && cached.satellites.length > 0 ? cached : null;
+    } catch (error) {
+      console.warn('Could not read cached satellite catalog:', error);
+      return null;
+    }
+  }
+
+  async save(catalog: CachedCatalog): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.put(catalog));
+    } catch (error) {
+      console.warn('Could not cache satellite catalog:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.clear());
+    } catch (error) {
+      console.warn('Could not clear satellite catalog cache:', error);
+    }
+  }
+}
+
+export const catalogCache = new CatalogCache();
@@ -0,0 +1,89 @@
+import { Satellite } from '../types/satellite.types';
+import { SatelliteDataSource } from './dataSources';
+import { applySatcat } from './satcat';
+import { classifyCatalog } from './classification';
+import { trackManeuvers } from './maneuvers';
+
+// Deltas cannot tell us about objects that decayed or aged out of the query,
+// so we still fall back to a full download every few hours.
+export const FULL_REFRESH_INTERVAL = 6 * 60 * 60 * 1000;
+
+export interface CatalogSnapshot {
+  satellites: Satellite[];
+  fullFetchAt: number;
+  updatedCount: number;
+}
+
+export const latestCreationDate = (satellites: Satellite[]): string | null => {
+  let latest: string | null = null;
+  for (const sat of satellites) {
+    const created = sat.orbital?.creationDate;
+    if (created && (!latest || created > latest)) latest = created;
+  }
+  return latest;
+};
+
+/**
+ * Merges newer element sets into the catalog by NORAD ID. Fields the update
+ * does not carry (derived data such as passes) are kept from the existing entry.
+ */
+export const mergeCatalog = (previous: Satellite[], updates: Satellite[]): Satellite[] => {
+  if (updates.length === 0) return previous;
+
+  const updatesById = new Map(updates.map(sat => [sat.id, sat]));
+  const merged = previous.map(sat => {
+    const update = updatesById.get(sat.id);
+    if (!update) return sat;
+    updatesById.delete(sat.id);
+    // GP updates do not carry every SATCAT field, so keep values the update leaves undefined
+    const metadata = { ...sat.metadata };
+    Object.entries(update.metadata).forEach(([key, value]) => {
+      if (value !== undefined) metadata[key] = value;
+    });
+    return { ...sat, ...update, metadata };
+  });
+
+  // Newly catalogued objects
+  return updatesById.size > 0 ? [...merged, ...updatesById.values()] : merged;
+};
+
+export const syncCatalog = async (
+  source: SatelliteDataSource,
+  previous: CatalogSnapshot | null
+): Promise<CatalogSnapshot> => {
+  const canUseDelta = previous
+    && previous.satellites.length > 0
+    && source.fetchUpdates
+    && Date.now() - previous.fullFetchAt < FULL_REFRESH_INTERVAL;
+  const since = canUseDelta ? latestCreationDate(previous.satellites) : null;
+
+  if (since) {
+    const updates = await source.fetchUpdates(since);
+    console.log(`Incremental refresh: ${updates.length} element sets created after ${since}`);
+    return {
+      // Updates are classified without the SATCAT fields the merge keeps, so classify again
+      satellites: trackManeuvers(previous.satellites, classifyCatalog(mergeCatalog(previous.satellites, updates))),
+      fullFetchAt: previous.fullFetchAt,
+      updatedCount: updates.length
+    };
+  }
+
+  const satellites = await source.fetchSatellites();
+  return {
+    satellites: trackManeuvers(previous?.satellites ?? [], await enrichWithSatcat(source, satellites)),
+    fullFetchAt: Date.now(),
+    updatedCount: satellites.length
+  };
+};
+
+// SATCAT enrichment is best effort: the catalog is still usable without it
+const enrichWithSatcat = async (source: SatelliteDataSource, satellites: Satellite[]): Promise<Satellite[]> => {
+  if (!source.fetchSatcat) return satellites;
+  try {
+    // SATCAT object types and owners feed the classification rules
+    return classifyCatalog(applySatcat(satellites, await source.fetchSatcat()));
+  } catch (error) {
+    console.warn('Could not load SATCAT records:', error);
+    return satellites;
+  }
+};
@@ -0,0 +1,131 @@
+// Rule-based classification of catalog objects. The rules live in
+// src/data/classificationRules.json so they can be edited without touching code.
+import rulesFile from '../data/classificationRules.json';
+import {
+  CatalogObjectType,
+  ClassificationField,
+  ClassificationMatch,
+  OrbitRegime,
+  RCSSize,
+  Satellite,
+  SatelliteType
+} from '../types/satellite.types';
+
+// Every condition present must hold; an empty match applies to every object
+export interface ClassificationRuleMatch {
+  name?: string; // case-insensitive regex against OBJECT_NAME
+  intlDesignator?: string; // regex against the COSPAR ID
+  objectType?: CatalogObjectType[];
+  orbitRegime?: OrbitRegime[];
+  country?: string[];
+  launchSite?: string[];
+  rcsSize?: RCSSize[];
+}
+
+export interface ClassificationRule {
+  id: string;
+  description?: string;
+  priority: number; // higher wins; ties go to the rule listed first
+  match: ClassificationRuleMatch;
+  assign: Partial<{ type: SatelliteType; constellation: string; purpose: string }>;
+}
+
+interface CompiledRule extends ClassificationRule {
+  namePattern?: RegExp;
+  designatorPattern?: RegExp;
+}
+
+const CLASSIFICATION_FIELDS: ClassificationField[] = ['type', 'constellation', 'purpose'];
+
+export const orbitRegime = (orbital: Satellite['orbital']): OrbitRegime => {
+  if (orbital.eccentricity >= 0.25) return 'HEO';
+  if (orbital.period >= 1300 && orbital.period <= 1600 && orbital.eccentricity < 0.1) return 'GEO';
+  if (orbital.apogee < 2000) return 'LEO';
+  return 'MEO';
+};
+
+const compileRegex = (pattern: string | undefined, ruleId: string): RegExp | undefined => {
+  if (!pattern) return undefined;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Classification rule "${ruleId}": invalid regex ${pattern}`);
+  }
+};
+
+/** Compiles regexes and sorts by priority. A broken rule is skipped rather than breaking the catalog. */
+export const compileRules = (rules: ClassificationRule[]): CompiledRule[] =>
+  rules
+    .flatMap((rule, index) => {
+      try {
+        if (!rule.id || typeof rule.priority !== 'number' || !rule.assign) {
+          throw new Error(`Classification rule ${rule.id || `#${index}`}: id, priority and assign are required`);
+        }
+        const compiled: CompiledRule = {
+          ...rule,
+          match: rule.match ?? {},
+          namePattern: compileRegex(rule.match?.name, rule.id),
+          designatorPattern: compileRegex(rule.match?.intlDesignator, rule.id)
+        };
+        return [{ compiled, index }];
+      } catch (error) {
+        console.warn(error.message);
+        return [];
+      }
+    })
+    .sort((a, b) => b.compiled.priority - a.compiled.priority || a.index - b.index)
+    .map(({ compiled }) => compiled);
+
+const DEFAULT_RULES = compileRules((rulesFile as { rules: ClassificationRule[] }).rules);
+
+const includes = <T>(allowed: T[] | undefined, value: T | undefined) =>
+  !allowed || allowed.length === 0 || (value !== undefined && allowed.includes(value));
+
+const matches = (rule: CompiledRule, sat: Satellite, regime: OrbitRegime): boolean => {
+  const { match } = rule;
+  return (!rule.namePattern || rule.namePattern.test(sat.name))
+    && (!rule.designatorPattern || rule.designatorPattern.test(sat.metadata?.intlDesignator ?? ''))
+    && includes(match.objectType, sat.metadata?.objectType)
+    && includes(match.orbitRegime, regime)
+    && includes(match.country, sat.metadata?.country)
+    && includes(match.launchSite, sat.metadata?.launchSite)
+    && includes(match.rcsSize, sat.metadata?.rcsSize);
+};
+
+/**
+ * Each field is set by the highest-priority matching rule that assigns it, so a
+ * specific rule can set just the constellation and leave the type to a broader one.
+ */
+export const classifySatellite = (sat: Satellite, rules: CompiledRule[] = DEFAULT_RULES): Satellite => {
+  const regime = orbitRegime(sat.orbital);
+  const classification: ClassificationMatch[] = [];
+  const pending = new Set(CLASSIFICATION_FIELDS);
+
+  for (const rule of rules) {
+    if (pending.size === 0) break;
+    if (!matches(rule, sat, regime)) continue;
+    CLASSIFICATION_FIELDS.forEach(field => {
+      const value = rule.assign[field];
+      if (!pending.has(field) || value === undefined) return;
+      pending.delete(field);
+      classification.push({ field, value, ruleId: rule.id, description: rule.description, priority: rule.priority });
+    });
+  }
+
+  const assigned = (field: ClassificationField) => classification.find(match => match.field === field)?.value;
+  // The source's own value, unless an earlier classification (e.g. of a cached catalog) put it there
+  const fromSource = (field: 'constellation' | 'purpose') =>
+    sat.classification?.some(match => match.field === field) ? undefined : sat.metadata?.[field];
+  return {
+    ...sat,
+    type: (assigned('type') as SatelliteType) ?? 'unknown',
+    metadata: {
+      ...sat.metadata,
+      constellation: assigned('constellation') ?? fromSource('constellation') ?? 'Other',
+      purpose: assigned('purpose') ?? fromSource('purpose')
+    },
+    classification
+  };
+};
+
+export const classifyCatalog = (satellites: Satellite[]): Satellite[] => satellites.map(sat => classifySatellite(sat));
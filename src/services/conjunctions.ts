@@ -0,0 +1,185 @@
+// Close approaches from Space-Track `cdm_public` records or local CDM files (JSON exports
+// of cdm_public, or CCSDS CDMs in KVN), linked to the satellites in the catalog.
+import { Conjunction, ConjunctionObject, Satellite } from '../types/satellite.types';
+import { normalizeObjectType, normalizeRCSSize } from './satcat';
+import { ElementSetSource, GroundTrackPoint, propagateGroundTrack } from './groundTrack';
+
+// Space-Track `cdm_public` class
+export interface SpaceTrackCDMData {
+  CDM_ID: number | string;
+  CREATED?: string;
+  EMERGENCY_REPORTABLE?: string;
+  TCA: string;
+  MIN_RNG: number | string; // m
+  PC?: number | string | null;
+  SAT_1_ID: number | string;
+  SAT_1_NAME?: string;
+  SAT1_OBJECT_TYPE?: string;
+  SAT1_RCS?: string;
+  SAT_2_ID: number | string;
+  SAT_2_NAME?: string;
+  SAT2_OBJECT_TYPE?: string;
+  SAT2_RCS?: string;
+}
+
+type CDMRecord = Record<string, string>;
+
+// Space-Track and CCSDS datetimes are UTC and usually carry no zone
+const toISO = (value: string): string => {
+  const normalized = value.trim().replace(' ', 'T');
+  const hasZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(normalized);
+  return new Date(hasZone ? normalized : `${normalized}Z`).toISOString();
+};
+
+const toNumber = (value: number | string | null | undefined): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(number) ? undefined : number;
+};
+
+export const fromSpaceTrackCDM = (record: SpaceTrackCDMData): Conjunction => ({
+  id: String(record.CDM_ID),
+  source: 'space-track',
+  tca: toISO(record.TCA),
+  missDistance: (toNumber(record.MIN_RNG) ?? 0) / 1000,
+  probability: toNumber(record.PC),
+  createdAt: record.CREATED ? toISO(record.CREATED) : undefined,
+  emergencyReportable: record.EMERGENCY_REPORTABLE === 'Y',
+  primary: {
+    noradId: String(record.SAT_1_ID),
+    name: record.SAT_1_NAME,
+    objectType: normalizeObjectType(record.SAT1_OBJECT_TYPE),
+    rcsSize: normalizeRCSSize(record.SAT1_RCS)
+  },
+  secondary: {
+    noradId: String(record.SAT_2_ID),
+    name: record.SAT_2_NAME,
+    objectType: normalizeObjectType(record.SAT2_OBJECT_TYPE),
+    rcsSize: normalizeRCSSize(record.SAT2_RCS)
+  }
+});
+
+// KVN messages: relative metadata first, then an `OBJECT = OBJECT1` and `OBJECT = OBJECT2` section
+const parseKVN = (text: string): { header: CDMRecord; objects: CDMRecord[] }[] => {
+  const messages: { header: CDMRecord; objects: CDMRecord[] }[] = [];
+  let current: { header: CDMRecord; objects: CDMRecord[] } | null = null;
+  let section: CDMRecord | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('COMMENT')) continue;
+
+    const match = line.match(/^([A-Z0-9_]+)\s*=\s*(.*?)\s*(\[[^\]]*\])?$/);
+    if (!match) continue;
+
+    const [, key, value] = match;
+    if (key === 'CCSDS_CDM_VERS' || !current) {
+      current = { header: {}, objects: [] };
+      section = current.header;
+      messages.push(current);
+    }
+    if (key === 'OBJECT') {
+      section = {};
+      current.objects.push(section);
+    }
+    section[key] = value;
+  }
+
+  return messages;
+};
+
+const fromKVNObject = (record: CDMRecord | undefined): ConjunctionObject | null => {
+  const noradId = record?.OBJECT_DESIGNATOR?.replace(/^0+(?=\d)/, '');
+  if (!noradId) return null;
+  return {
+    noradId,
+    name: record.OBJECT_NAME || undefined,
+    objectType: normalizeObjectType(record.OBJECT_TYPE)
+  };
+};
+
+/**
+ * Parses a local CDM file: a JSON array of `cdm_public` records or one or more KVN CDMs.
+ * Records missing the TCA, miss distance or either object are reported in `errors`.
+ */
+export const parseCDMFile = (text: string): { conjunctions: Conjunction[]; errors: string[] } => {
+  const conjunctions: Conjunction[] = [];
+  const errors: string[] = [];
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let records: SpaceTrackCDMData[];
+    try {
+      const data = JSON.parse(text);
+      records = Array.isArray(data) ? data : [data];
+    } catch (error) {
+      return { conjunctions, errors: [`Malformed CDM JSON: ${error.message}`] };
+    }
+    records.forEach((record, index) => {
+      if (!record?.TCA || record.MIN_RNG === undefined || !record.SAT_1_ID || !record.SAT_2_ID) {
+        errors.push(`Record ${index + 1}: missing TCA, MIN_RNG or object IDs`);
+        return;
+      }
+      conjunctions.push({ ...fromSpaceTrackCDM(record), source: 'file' });
+    });
+    return { conjunctions, errors };
+  }
+
+  if (!/^\s*CCSDS_CDM_VERS\s*=/m.test(text)) {
+    return { conjunctions, errors: ['Text is not a CDM in JSON or KVN format'] };
+  }
+
+  parseKVN(text).forEach(({ header, objects }, index) => {
+    const primary = fromKVNObject(objects[0]);
+    const secondary = fromKVNObject(objects[1]);
+    const missDistance = toNumber(header.MISS_DISTANCE);
+    if (!header.TCA || missDistance === undefined || !primary || !secondary) {
+      errors.push(`Message ${index + 1}: missing TCA, MISS_DISTANCE or object designators`);
+      return;
+    }
+    const relativeSpeed = toNumber(header.RELATIVE_SPEED);
+    conjunctions.push({
+      id: header.MESSAGE_ID || `${primary.noradId}-${secondary.noradId}-${header.TCA}`,
+      source: 'file',
+      tca: toISO(header.TCA),
+      missDistance: missDistance / 1000,
+      probability: toNumber(header.COLLISION_PROBABILITY),
+      relativeSpeed: relativeSpeed !== undefined ? relativeSpeed / 1000 : undefined,
+      createdAt: header.CREATION_DATE ? toISO(header.CREATION_DATE) : undefined,
+      primary,
+      secondary
+    });
+  });
+
+  return { conjunctions, errors };
+};
+
+// Soonest TCA first, closest approach first on ties
+export const sortConjunctions = (conjunctions: Conjunction[]): Conjunction[] =>
+  [...conjunctions].sort((a, b) => a.tca.localeCompare(b.tca) || a.missDistance - b.missDistance);
+
+// Catalog entries for both objects, when they are loaded
+export const linkConjunction = (
+  conjunction: Conjunction,
+  satellitesById: Map<string, Satellite>
+): { primary?: Satellite; secondary?: Satellite } => ({
+  primary: satellitesById.get(conjunction.primary.noradId),
+  secondary: satellitesById.get(conjunction.secondary.noradId)
+});
+
+// Both objects' tracks through the minutes around TCA, to show how they cross
+export const conjunctionTrack = (
+  sat: ElementSetSource,
+  conjunction: Conjunction,
+  spanMinutes = 5,
+  steps = 40
+): GroundTrackPoint[] => {
+  const tca = new Date(conjunction.tca).getTime();
+  return propagateGroundTrack(sat, tca - spanMinutes * 60000, tca + spanMinutes * 60000, steps);
+};
+
+export const formatMissDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(2)} km`;
+
+export const formatProbability = (probability: number | undefined): string =>
+  probability === undefined ? '—' : probability === 0 ? '0' : probability.toExponential(1);
@@ -0,0 +1,166 @@
+import { Conjunction, ElementSetHistoryPoint, ReentryPrediction, Satellite, SatelliteDataSourceId } from '../types/satellite.types';
+import { spaceTrackAPI, SpaceTrackGPData } from './spaceTrackAPI';
+import { parseTLEText } from './tle';
+import { detectOMMFormat, parseOMM } from './omm';
+import { CelesTrakSatcatData, fromCelesTrakSatcat, SatcatRecord } from './satcat';
+
+export interface SatelliteDataSource {
+  id: SatelliteDataSourceId;
+  label: string;
+  description: string;
+  fetchSatellites(): Promise<Satellite[]>;
+  // Optional delta query: element sets created after the given creation date
+  fetchUpdates?(since: string): Promise<Satellite[]>;
+  // Optional SATCAT records used to enrich the catalog metadata
+  fetchSatcat?(): Promise<SatcatRecord[]>;
+  // Optional decay/TIP reentry predictions
+  fetchReentries?(): Promise<ReentryPrediction[]>;
+  // Optional close approaches from public conjunction data messages
+  fetchConjunctions?(): Promise<Conjunction[]>;
+  // Optional historical element sets for one object over an epoch range
+  fetchElementSetHistory?(noradId: string, from: Date, to: Date): Promise<ElementSetHistoryPoint[]>;
+}
+
+const ensureCatalog = (data: unknown): SpaceTrackGPData[] => {
+  if (!data || !Array.isArray(data) || data.length === 0) {
+    throw new Error('No satellite data received');
+  }
+  return data as SpaceTrackGPData[];
+};
+
+export class SpaceTrackDataSource implements SatelliteDataSource {
+  readonly id = 'space-track' as const;
+  readonly label = 'Space-Track';
+  readonly description = 'Live GP catalog via the Space-Track proxy';
+
+  async fetchSatellites(): Promise<Satellite[]> {
+    // Test connectivity first
+    try {
+      console.log('Testing connectivity to API...');
+      const testResponse = await fetch('/api/space-track-proxy', {
+        method: 'OPTIONS'
+      });
+      console.log('Connectivity test result:', testResponse.status);
+    } catch (error) {
+      console.error('Connectivity test failed:', error);
+      throw new Error('Cannot connect to satellite data service. The service may be temporarily unavailable.');
+    }
+
+    return spaceTrackAPI.getAllActiveSatellites();
+  }
+
+  async fetchUpdates(since: string): Promise<Satellite[]> {
+    return spaceTrackAPI.getSatellitesUpdatedSince(since);
+  }
+
+  async fetchSatcat(): Promise<SatcatRecord[]> {
+    return spaceTrackAPI.getSatcat();
+  }
+
+  async fetchReentries(): Promise<ReentryPrediction[]> {
+    return spaceTrackAPI.getReentryPredictions();
+  }
+
+  async fetchConjunctions(): Promise<Conjunction[]> {
+    return spaceTrackAPI.getConjunctions();
+  }
+
+  async fetchElementSetHistory(noradId: string, from: Date, to: Date): Promise<ElementSetHistoryPoint[]> {
+    return spaceTrackAPI.getElementSetHistory(noradId, from, to);
+  }
+}
+
+export class CelesTrakDataSource implements SatelliteDataSource {
+  readonly id = 'celestrak' as const;
+  readonly label = 'CelesTrak';
+  readonly description = 'Public GP JSON feed (no credentials required)';
+
+  constructor(
+    private baseUrl = import.meta.env.VITE_CELESTRAK_GP_URL || 'https://celestrak.org/NORAD/elements/gp.php',
+    private group = 'active',
+    private satcatUrl = import.meta.env.VITE_CELESTRAK_SATCAT_URL || 'https://celestrak.org/satcat/records.php'
+  ) {}
+
+  async fetchSatellites(): Promise<Satellite[]> {
+    const url = `${this.baseUrl}?GROUP=${encodeURIComponent(this.group)}&FORMAT=json`;
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+
+    if (!response.ok) {
+      throw new Error(`CelesTrak request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = ensureCatalog(await response.json());
+    return spaceTrackAPI.convertCatalog(data);
+  }
+
+  async fetchSatcat(): Promise<SatcatRecord[]> {
+    const url = `${this.satcatUrl}?GROUP=${encodeURIComponent(this.group)}&FORMAT=json`;
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+
+    if (!response.ok) {
+      throw new Error(`CelesTrak SATCAT request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: CelesTrakSatcatData[] = await response.json();
+    return Array.isArray(data) ? data.map(fromCelesTrakSatcat) : [];
+  }
+}
+
+export class LocalFileDataSource implements SatelliteDataSource {
+  readonly id = 'local' as const;
+  readonly label = 'Local file';
+  readonly description = 'Frozen GP JSON, OMM or TLE catalog for demos and testing';
+  private file: File | null = null;
+
+  constructor(private fixtureUrl = '/fixtures/gp-catalog.json') {}
+
+  setFile(file: File | null) {
+    this.file = file;
+  }
+
+  getFileName(): string {
+    return this.file?.name || this.fixtureUrl.split('/').pop() || this.fixtureUrl;
+  }
+
+  async fetchSatellites(): Promise<Satellite[]> {
+    const text = this.file ? await this.file.text() : await this.fetchFixture();
+
+    if (detectOMMFormat(text)) {
+      const { records } = parseOMM(text);
+      return spaceTrackAPI.convertCatalog(ensureCatalog(records));
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      // Not JSON - fall back to two/three-line element set text
+      const { elementSets } = parseTLEText(text);
+      if (elementSets.length === 0) {
+        throw new Error(`${this.getFileName()} is not a valid GP JSON, OMM or TLE catalog`);
+      }
+      return spaceTrackAPI.convertElementSets(elementSets);
+    }
+
+    return spaceTrackAPI.convertCatalog(ensureCatalog(data));
+  }
+
+  private async fetchFixture(): Promise<string> {
+    const response = await fetch(this.fixtureUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load fixture catalog ${this.fixtureUrl}: ${response.status}`);
+    }
+    return response.text();
+  }
+}
+
+export const localFileDataSource = new LocalFileDataSource();
+
+export const dataSources: Record<SatelliteDataSourceId, SatelliteDataSource> = {
+  'space-track': new SpaceTrackDataSource(),
+  'celestrak': new CelesTrakDataSource(),
+  'local': localFileDataSource
+};
+
+export const getDataSource = (id: SatelliteDataSourceId): SatelliteDataSource =>
+  dataSources[id] ?? dataSources['space-track'];
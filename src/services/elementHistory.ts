@@ -0,0 +1,71 @@
+// Historical element sets (Space-Track `gp_history`) reduced to chartable orbit parameters
+import { ElementSetHistoryPoint } from '../types/satellite.types';
+import { SpaceTrackGPData } from './spaceTrackAPI';
+import { deriveOrbitGeometry } from './tle';
+
+export type SpaceTrackGPHistoryData = Pick<SpaceTrackGPData, 'EPOCH' | 'MEAN_MOTION' | 'ECCENTRICITY' | 'INCLINATION' | 'BSTAR'>;
+
+// Columns requested from gp_history; full records are several times larger
+export const GP_HISTORY_COLUMNS = ['EPOCH', 'MEAN_MOTION', 'ECCENTRICITY', 'INCLINATION', 'BSTAR'] as const;
+
+const toNumber = (value: number | string | undefined): number =>
+  typeof value === 'number' ? value : parseFloat(value ?? '');
+
+// Space-Track epochs are UTC without a zone ("2026-10-18T06:12:45.123456")
+const toISO = (epoch: string): string => {
+  const normalized = epoch.trim().replace(' ', 'T');
+  return new Date(/([zZ]|[+-]\d{2}:?\d{2})$/.test(normalized) ? normalized : `${normalized}Z`).toISOString();
+};
+
+export const fromGPHistoryRecord = (record: SpaceTrackGPHistoryData): ElementSetHistoryPoint | null => {
+  const meanMotion = toNumber(record.MEAN_MOTION);
+  const eccentricity = toNumber(record.ECCENTRICITY);
+  const inclination = toNumber(record.INCLINATION);
+  if (!record.EPOCH || !(meanMotion > 0) || isNaN(eccentricity) || isNaN(inclination)) return null;
+
+  const { apoapsis, periapsis } = deriveOrbitGeometry(meanMotion, eccentricity);
+  const bstar = toNumber(record.BSTAR);
+  return {
+    epoch: toISO(record.EPOCH),
+    meanAltitude: (apoapsis + periapsis) / 2,
+    apoapsis,
+    periapsis,
+    inclination,
+    eccentricity,
+    bstar: isNaN(bstar) ? 0 : bstar,
+    meanMotion
+  };
+};
+
+/**
+ * Merges newly fetched element sets into an existing history, ordered by epoch.
+ * Element sets republished with the same epoch replace the earlier copy.
+ */
+export const mergeHistory = (existing: ElementSetHistoryPoint[], incoming: ElementSetHistoryPoint[]): ElementSetHistoryPoint[] => {
+  const byEpoch = new Map(existing.map(point => [point.epoch, point]));
+  incoming.forEach(point => byEpoch.set(point.epoch, point));
+  return Array.from(byEpoch.values()).sort((a, b) => a.epoch.localeCompare(b.epoch));
+};
+
+// An epoch span that has been requested, as ISO timestamps
+export interface EpochRange {
+  from: string;
+  to: string;
+}
+
+// Ranges this close are joined, e.g. one ending at 23:59:59 and the next starting at midnight
+const RANGE_JOIN_MS = 1000;
+
+/** Adds a requested range to those already loaded, joining it with any it overlaps or touches. */
+export const addLoadedRange = (ranges: EpochRange[], range: EpochRange): EpochRange[] =>
+  [...ranges, range]
+    .sort((a, b) => a.from.localeCompare(b.from))
+    .reduce<EpochRange[]>((merged, next) => {
+      const last = merged[merged.length - 1];
+      if (last && Date.parse(next.from) - Date.parse(last.to) <= RANGE_JOIN_MS) {
+        if (next.to > last.to) last.to = next.to;
+      } else {
+        merged.push({ ...next });
+      }
+      return merged;
+    }, []);
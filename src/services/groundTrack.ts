@@ -0,0 +1,46 @@
+// SGP4 sampling of an element set over a time span, shared by the reentry and conjunction views
+import * as satellite from 'satellite.js';
+import { Satellite } from '../types/satellite.types';
+import { getSatrec } from './satrecCache';
+
+// What sampling needs from a satellite: its NORAD ID and element set
+export type ElementSetSource = Pick<Satellite, 'id' | 'tle'>;
+
+export interface GroundTrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  time: number;
+}
+
+/**
+ * Samples `steps + 1` evenly spaced positions between `start` and `end` (epoch ms).
+ * Sampling stops where SGP4 reports an error, e.g. once the orbit has decayed.
+ */
+export const propagateGroundTrack = (sat: ElementSetSource, start: number, end: number, steps: number): GroundTrackPoint[] => {
+  if (!sat.tle?.line1 || !sat.tle?.line2) return [];
+
+  const record = getSatrec(sat.id, sat.tle.line1, sat.tle.line2);
+  if ('error' in record) return [];
+
+  const points: GroundTrackPoint[] = [];
+  try {
+    const { satrec } = record;
+    for (let i = 0; i <= steps; i++) {
+      const time = new Date(start + ((end - start) * i) / steps);
+      const result = satellite.propagate(satrec, time);
+      if (!result || !result.position || typeof result.position !== 'object') break;
+
+      const gmst = satellite.gstime(time);
+      const geodetic = satellite.eciToGeodetic(result.position, gmst);
+      const latitude = satellite.degreesLat(geodetic.latitude);
+      const longitude = satellite.degreesLong(geodetic.longitude);
+      if (isNaN(latitude) || isNaN(longitude) || isNaN(geodetic.height)) break;
+
+      points.push({ latitude, longitude, altitude: Math.max(geodetic.height, 0), time: time.getTime() });
+    }
+  } catch (error) {
+    console.warn(`Could not propagate ground track for ${sat.id}:`, error);
+  }
+  return points;
+};
@@ -0,0 +1,171 @@
+// Launch schedule from The Space Devs Launch Library 2 (https://ll.thespacedevs.com/docs),
+// either live or from a saved LL2 JSON response, linked to the objects each launch catalogued.
+import { Launch, LaunchStatus, Satellite } from '../types/satellite.types';
+
+// The subset of an LL2 launch (list or detailed mode) that the schedule uses
+export interface LaunchLibraryLaunch {
+  id: string;
+  name: string;
+  net: string; // no earlier than (ISO, UTC)
+  status?: { id?: number; name?: string; abbrev?: string } | null;
+  launch_designator?: string | null; // COSPAR launch ID, present on newer API versions
+  launch_service_provider?: { name?: string } | null;
+  rocket?: {
+    configuration?: { name?: string; full_name?: string } | null;
+    spacecraft_stage?: { spacecraft?: { name?: string } | null } | null;
+  } | null;
+  mission?: { name?: string; description?: string; orbit?: { abbrev?: string } | null } | null;
+  pad?: { name?: string; location?: { name?: string } | null } | null;
+}
+
+export interface LaunchLibraryResponse {
+  count?: number;
+  results: LaunchLibraryLaunch[];
+}
+
+const LAUNCH_LIBRARY_URL = import.meta.env.VITE_LAUNCH_LIBRARY_URL || 'https://ll.thespacedevs.com/2.2.0/launch';
+// The free tier allows 15 requests an hour
+const PAGE_SIZE = 30;
+
+// LL2 status abbreviations (https://ll.thespacedevs.com/2.2.0/config/launchstatus/)
+const STATUS_MAP: Record<string, LaunchStatus> = {
+  'go': 'scheduled',
+  'tbd': 'scheduled',
+  'tbc': 'scheduled',
+  'hold': 'scheduled',
+  'in flight': 'in-flight',
+  'success': 'successful',
+  'failure': 'failed',
+  'partial failure': 'failed'
+};
+
+const toStatus = (status: LaunchLibraryLaunch['status']): LaunchStatus => {
+  const abbrev = status?.abbrev?.trim().toLowerCase() ?? '';
+  if (STATUS_MAP[abbrev]) return STATUS_MAP[abbrev];
+  return /cancel/i.test(status?.name ?? '') ? 'cancelled' : 'scheduled';
+};
+
+export const fromLaunchLibrary = (record: LaunchLibraryLaunch): Launch => {
+  const launchDate = new Date(record.net);
+  if (!record.id || isNaN(launchDate.getTime())) {
+    throw new Error(`Launch ${record.name || record.id || '(unnamed)'}: missing id or NET date`);
+  }
+  const spacecraft = record.rocket?.spacecraft_stage?.spacecraft?.name;
+  const missionName = record.mission?.name;
+  return {
+    id: record.id,
+    name: record.name,
+    launchDate,
+    status: toStatus(record.status),
+    rocket: record.rocket?.configuration?.full_name || record.rocket?.configuration?.name || 'Unknown',
+    agency: record.launch_service_provider?.name || 'Unknown',
+    mission: record.mission?.description || missionName || '',
+    launchSite: [record.pad?.name, record.pad?.location?.name].filter(Boolean).join(', ') || 'Unknown',
+    payloads: [spacecraft, missionName].filter((name, index, names): name is string => !!name && names.indexOf(name) === index),
+    cosparId: record.launch_designator || undefined,
+    orbit: record.mission?.orbit?.abbrev || undefined
+  };
+};
+
+/** Accepts an LL2 list response, a bare array of launches, or a single launch. */
+export const parseLaunchFile = (text: string): { launches: Launch[]; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { launches: [], errors: [`Not valid JSON: ${error.message}`] };
+  }
+
+  const records: LaunchLibraryLaunch[] = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as LaunchLibraryResponse).results)
+      ? (data as LaunchLibraryResponse).results
+      : data && typeof data === 'object' && 'net' in data
+        ? [data as LaunchLibraryLaunch]
+        : [];
+  if (records.length === 0) return { launches: [], errors: ['No Launch Library 2 launches found'] };
+
+  const launches: Launch[] = [];
+  const errors: string[] = [];
+  records.forEach(record => {
+    try {
+      launches.push(fromLaunchLibrary(record));
+    } catch (error) {
+      errors.push(error.message);
+    }
+  });
+  return { launches, errors };
+};
+
+const fetchPage = async (path: 'upcoming' | 'previous'): Promise<Launch[]> => {
+  const response = await fetch(`${LAUNCH_LIBRARY_URL}/${path}/?limit=${PAGE_SIZE}&mode=detailed`, {
+    headers: { 'Accept': 'application/json' }
+  });
+  if (!response.ok) {
+    throw new Error(`Launch Library request failed: ${response.status} ${response.statusText}`);
+  }
+  const data: LaunchLibraryResponse = await response.json();
+  return (data.results ?? []).flatMap(record => {
+    try {
+      return [fromLaunchLibrary(record)];
+    } catch (error) {
+      console.warn(error.message);
+      return [];
+    }
+  });
+};
+
+// Upcoming launches plus recent ones, which are the ones with newly catalogued objects
+export const fetchLaunchSchedule = async (): Promise<Launch[]> => {
+  const [upcoming, previous] = await Promise.all([fetchPage('upcoming'), fetchPage('previous')]);
+  return sortLaunches([...upcoming, ...previous]);
+};
+
+export const sortLaunches = (launches: Launch[]): Launch[] =>
+  [...launches].sort((a, b) => a.launchDate.getTime() - b.launchDate.getTime());
+
+// 2024-001A and 2024-001AB belong to 2024-001; 2024-0011A does not exist but must not match either
+const fromLaunch = (designator: string | undefined, cosparId: string) =>
+  !!designator && designator.startsWith(cosparId) && /^[A-Z]/i.test(designator.substring(cosparId.length));
+
+const utcDay = (date: Date) => date.toISOString().substring(0, 10);
+
+/**
+ * Catalog objects from each successful launch. With a COSPAR launch designator
+ * the match is exact; without one, objects launched the same UTC day are used,
+ * but only when that was the day's only successful launch in the schedule.
+ */
+export const linkLaunchObjects = (launches: Launch[], satellites: Satellite[]): Map<string, Satellite[]> => {
+  const links = new Map<string, Satellite[]>();
+  const successful = launches.filter(launch => launch.status === 'successful');
+  const launchesPerDay = new Map<string, number>();
+  successful.forEach(launch => {
+    const day = utcDay(launch.launchDate);
+    launchesPerDay.set(day, (launchesPerDay.get(day) ?? 0) + 1);
+  });
+
+  successful.forEach(launch => {
+    const day = utcDay(launch.launchDate);
+    const objects = launch.cosparId
+      ? satellites.filter(sat => fromLaunch(sat.metadata?.intlDesignator, launch.cosparId))
+      : launchesPerDay.get(day) === 1
+        ? satellites.filter(sat => sat.metadata?.launchDate?.substring(0, 10) === day)
+        : [];
+    if (objects.length > 0) links.set(launch.id, objects);
+  });
+  return links;
+};
+
+export const formatLaunchCountdown = (launchDate: Date, now = Date.now()): string => {
+  const diff = launchDate.getTime() - now;
+  const sign = diff >= 0 ? 'T-' : 'T+';
+  const totalSeconds = Math.floor(Math.abs(diff) / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return days > 0
+    ? `${sign}${days}d ${pad(hours)}h ${pad(minutes)}m`
+    : `${sign}${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
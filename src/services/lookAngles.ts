@@ -0,0 +1,49 @@
+// Topocentric look angles: where a satellite sits in the observer's sky and how fast
+// it is closing or receding, for pointing antennas and predicting passes.
+import * as satellite from 'satellite.js';
+import { LookAngles, UserLocation } from '../types/satellite.types';
+
+// Earth's rotation rate, rad/s
+const EARTH_ROTATION_RATE = 7.292115e-5;
+
+export const observerGeodetic = (observer: UserLocation): satellite.GeodeticLocation => ({
+  latitude: satellite.degreesToRadians(observer.latitude),
+  longitude: satellite.degreesToRadians(observer.longitude),
+  height: observer.altitude ?? 0
+});
+
+/**
+ * Azimuth, elevation and slant range from the SGP4 state vector. Range-rate is the
+ * satellite's Earth-fixed velocity along the line of sight, so the observer's own
+ * rotation with the Earth is accounted for.
+ */
+export const lookAngles = (
+  observer: satellite.GeodeticLocation,
+  position: satellite.EciVec3<satellite.Kilometer>,
+  velocity: satellite.EciVec3<satellite.KilometerPerSecond>,
+  date: Date
+): LookAngles => {
+  const gmst = satellite.gstime(date);
+  const positionEcf = satellite.eciToEcf(position, gmst);
+  // Rotate the velocity into the Earth-fixed frame, then remove the frame's rotation (v - ω × r)
+  const rotated = satellite.eciToEcf(velocity, gmst);
+  const velocityEcf = {
+    x: rotated.x + EARTH_ROTATION_RATE * positionEcf.y,
+    y: rotated.y - EARTH_ROTATION_RATE * positionEcf.x,
+    z: rotated.z
+  };
+
+  const site = satellite.geodeticToEcf(observer);
+  const dx = positionEcf.x - site.x;
+  const dy = positionEcf.y - site.y;
+  const dz = positionEcf.z - site.z;
+  const range = Math.hypot(dx, dy, dz);
+  const angles = satellite.ecfToLookAngles(observer, positionEcf);
+
+  return {
+    azimuth: satellite.radiansToDegrees(angles.azimuth),
+    elevation: satellite.radiansToDegrees(angles.elevation),
+    range,
+    rangeRate: (dx * velocityEcf.x + dy * velocityEcf.y + dz * velocityEcf.z) / range
+  };
+};
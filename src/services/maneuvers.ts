@@ -0,0 +1,160 @@
+// Maneuver detection from successive element sets of the same object, whether they
+// arrive through catalog refreshes or a loaded gp_history range.
+import { ElementSetHistoryPoint, ManeuverEvent, ManeuverKind, Satellite } from '../types/satellite.types';
+import { deriveOrbitGeometry, EARTH_MU, parseEpoch, parseTLE } from './tle';
+
+export type ElementSample = Pick<ElementSetHistoryPoint, 'epoch' | 'meanMotion' | 'inclination' | 'eccentricity'>;
+
+// Above TLE fit noise for LEO through GEO
+const SMA_JUMP_KM = 1;
+// Drag lowers very low orbits by a few km a day, so lowering needs more than a jump
+const DRAG_ALLOWANCE_KM_PER_DAY = 2;
+const INCLINATION_JUMP_DEG = 0.02;
+// Sun and Moon pull an uncontrolled GEO plane by ~0.9°/year; faster than anything else sees naturally
+const INCLINATION_DRIFT_DEG_PER_DAY = 0.003;
+// East-west station-keeping barely moves the drift rate; relocations change it by tenths of a degree per day
+const GEO_DRIFT_JUMP_DEG_PER_DAY = 0.05;
+// Beyond this gap the change cannot be pinned to a single burn
+const MAX_GAP_DAYS = 14;
+const SIDEREAL_REVS_PER_DAY = 1.00273791;
+// How recent a maneuver must be for lists to flag the object as maneuvering
+export const MANEUVER_FLAG_DAYS = 30;
+
+const isGeosynchronous = (sample: ElementSample) =>
+  sample.meanMotion > 0.9 && sample.meanMotion < 1.1 && sample.eccentricity < 0.1;
+
+// Longitude drift relative to the Earth, positive eastward
+const driftRate = (sample: ElementSample) => (sample.meanMotion - SIDEREAL_REVS_PER_DAY) * 360;
+
+export const sampleFromSatellite = (sat: Satellite): ElementSample | null => {
+  if (!sat.tle?.line1 || !sat.tle?.line2) return null;
+  try {
+    return parseTLE(sat.tle.line1, sat.tle.line2);
+  } catch (error) {
+    return null;
+  }
+};
+
+const compareSamples = (
+  noradId: string,
+  before: ElementSample,
+  after: ElementSample,
+  source: ManeuverEvent['source']
+): ManeuverEvent[] => {
+  const start = parseEpoch(before.epoch).getTime();
+  const end = parseEpoch(after.epoch).getTime();
+  const gapDays = (end - start) / 86400000;
+  if (gapDays <= 0 || gapDays > MAX_GAP_DAYS) return [];
+
+  const aBefore = deriveOrbitGeometry(before.meanMotion, before.eccentricity).semiMajorAxis;
+  const aAfter = deriveOrbitGeometry(after.meanMotion, after.eccentricity).semiMajorAxis;
+  const deltaA = aAfter - aBefore;
+  const speed = Math.sqrt(EARTH_MU / aBefore) * 1000; // m/s
+  const epochBefore = new Date(start).toISOString();
+  const epochAfter = new Date(end).toISOString();
+  const event = (kind: ManeuverKind, change: number, deltaV: number): ManeuverEvent => ({
+    id: `${noradId}-${kind}-${epochAfter}`,
+    kind,
+    time: new Date((start + end) / 2).toISOString(),
+    epochBefore,
+    epochAfter,
+    change,
+    deltaV,
+    source
+  });
+
+  // Tangential burn on a near-circular orbit: dv = v/2 * da/a
+  const tangentialDeltaV = (speed / 2) * Math.abs(deltaA) / aBefore;
+  const events: ManeuverEvent[] = [];
+
+  if (isGeosynchronous(before) && isGeosynchronous(after)) {
+    const driftChange = driftRate(after) - driftRate(before);
+    if (Math.abs(driftChange) > GEO_DRIFT_JUMP_DEG_PER_DAY) {
+      events.push(event('geo-relocation', driftChange, tangentialDeltaV));
+    }
+  } else if (deltaA > SMA_JUMP_KM || deltaA < -(SMA_JUMP_KM + DRAG_ALLOWANCE_KM_PER_DAY * gapDays)) {
+    events.push(event('semi-major-axis', deltaA, tangentialDeltaV));
+  }
+
+  const deltaI = after.inclination - before.inclination;
+  if (Math.abs(deltaI) > INCLINATION_JUMP_DEG + INCLINATION_DRIFT_DEG_PER_DAY * gapDays) {
+    // Pure plane change: dv = 2v sin(di/2)
+    events.push(event('inclination', deltaI, 2 * speed * Math.sin((Math.abs(deltaI) * Math.PI) / 360)));
+  }
+  return events;
+};
+
+/** Compares each element set with the one before it, in epoch order. */
+export const detectManeuvers = (
+  noradId: string,
+  samples: ElementSample[],
+  source: ManeuverEvent['source']
+): ManeuverEvent[] => {
+  const ordered = [...samples].sort((a, b) => parseEpoch(a.epoch).getTime() - parseEpoch(b.epoch).getTime());
+  return ordered.flatMap((sample, index) =>
+    index === 0 ? [] : compareSamples(noradId, ordered[index - 1], sample, source)
+  );
+};
+
+export const mergeManeuvers = (existing: ManeuverEvent[] = [], incoming: ManeuverEvent[]): ManeuverEvent[] => {
+  if (incoming.length === 0) return existing;
+  const byId = new Map(existing.map(event => [event.id, event]));
+  incoming.forEach(event => byId.set(event.id, event));
+  return Array.from(byId.values()).sort((a, b) => a.time.localeCompare(b.time));
+};
+
+/**
+ * Carries detected maneuvers over from the previous catalog and checks each
+ * object's new element set against the one it replaces.
+ */
+export const trackManeuvers = (previous: Satellite[], next: Satellite[]): Satellite[] => {
+  if (previous.length === 0) return next;
+  const previousById = new Map(previous.map(sat => [sat.id, sat]));
+  return next.map(sat => {
+    const before = previousById.get(sat.id);
+    if (!before) return sat;
+    const carried = mergeManeuvers(before.maneuvers, sat.maneuvers ?? []);
+    if (before.tle?.line2 === sat.tle?.line2) {
+      return carried.length > 0 ? { ...sat, maneuvers: carried } : sat;
+    }
+    const beforeSample = sampleFromSatellite(before);
+    const afterSample = sampleFromSatellite(sat);
+    const detected = beforeSample && afterSample ? detectManeuvers(sat.id, [beforeSample, afterSample], 'refresh') : [];
+    const maneuvers = mergeManeuvers(carried, detected);
+    return maneuvers.length > 0 ? { ...sat, maneuvers } : sat;
+  });
+};
+
+// Adds maneuvers found in loaded gp_history ranges, keyed by NORAD ID
+export const attachHistoryManeuvers = (
+  satellites: Satellite[],
+  histories: Record<string, { points: ElementSetHistoryPoint[] }>
+): Satellite[] => {
+  const detected = new Map(
+    Object.entries(histories).map(([noradId, history]) => [noradId, detectManeuvers(noradId, history.points, 'history')])
+  );
+  if (detected.size === 0) return satellites;
+  return satellites.map(sat => {
+    const events = detected.get(sat.id);
+    return events?.length ? { ...sat, maneuvers: mergeManeuvers(sat.maneuvers, events) } : sat;
+  });
+};
+
+/** The most recent maneuver up to `now` (the simulation time), if within `withinDays` of it. */
+export const latestManeuver = (sat: Satellite, withinDays: number, now: number): ManeuverEvent | undefined => {
+  const past = sat.maneuvers?.filter(event => new Date(event.time).getTime() <= now);
+  const last = past?.[past.length - 1];
+  return last && now - new Date(last.time).getTime() <= withinDays * 86400000 ? last : undefined;
+};
+
+export const describeManeuver = (event: ManeuverEvent): string => {
+  const sign = event.change > 0 ? '+' : '';
+  switch (event.kind) {
+    case 'semi-major-axis':
+      return `${event.change > 0 ? 'Orbit raise' : 'Orbit lowering'} (${sign}${event.change.toFixed(1)} km)`;
+    case 'inclination':
+      return `Plane change (${sign}${event.change.toFixed(3)}°)`;
+    case 'geo-relocation':
+      return `GEO relocation (drift ${sign}${event.change.toFixed(2)}°/day)`;
+  }
+};
@@ -0,0 +1,265 @@
+// CCSDS Orbit Mean-Elements Message (OMM) support in XML and KVN encodings.
+// Parsed messages become GP records so they share the Space-Track conversion path.
+import { Satellite } from '../types/satellite.types';
+import { SpaceTrackGPData } from './spaceTrackAPI';
+import { parseTLE } from './tle';
+
+export type OMMFormat = 'xml' | 'kvn';
+export type OMMRecord = Record<string, string>;
+
+const REQUIRED_FIELDS = [
+  'NORAD_CAT_ID',
+  'EPOCH',
+  'MEAN_MOTION',
+  'ECCENTRICITY',
+  'INCLINATION',
+  'RA_OF_ASC_NODE',
+  'ARG_OF_PERICENTER',
+  'MEAN_ANOMALY'
+];
+
+const HEADER_FIELDS = ['CCSDS_OMM_VERS', 'CREATION_DATE', 'ORIGINATOR'];
+const METADATA_FIELDS = ['OBJECT_NAME', 'OBJECT_ID', 'CENTER_NAME', 'REF_FRAME', 'TIME_SYSTEM', 'MEAN_ELEMENT_THEORY'];
+const MEAN_ELEMENT_FIELDS = ['EPOCH', 'MEAN_MOTION', 'ECCENTRICITY', 'INCLINATION', 'RA_OF_ASC_NODE', 'ARG_OF_PERICENTER', 'MEAN_ANOMALY'];
+const TLE_PARAMETER_FIELDS = [
+  'EPHEMERIS_TYPE',
+  'CLASSIFICATION_TYPE',
+  'NORAD_CAT_ID',
+  'ELEMENT_SET_NO',
+  'REV_AT_EPOCH',
+  'BSTAR',
+  'MEAN_MOTION_DOT',
+  'MEAN_MOTION_DDOT'
+];
+const STANDARD_FIELDS = new Set([...HEADER_FIELDS, ...METADATA_FIELDS, ...MEAN_ELEMENT_FIELDS, ...TLE_PARAMETER_FIELDS]);
+
+const KVN_UNITS: Record<string, string> = {
+  MEAN_MOTION: 'rev/day',
+  INCLINATION: 'deg',
+  RA_OF_ASC_NODE: 'deg',
+  ARG_OF_PERICENTER: 'deg',
+  MEAN_ANOMALY: 'deg',
+  BSTAR: '1/ER',
+  MEAN_MOTION_DOT: 'rev/day**2',
+  MEAN_MOTION_DDOT: 'rev/day**3'
+};
+
+export const detectOMMFormat = (text: string): OMMFormat | null => {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<') && /<omm[\s>]/i.test(trimmed)) return 'xml';
+  if (/^\s*CCSDS_OMM_VERS\s*=/m.test(text)) return 'kvn';
+  return null;
+};
+
+const parseKVN = (text: string): OMMRecord[] => {
+  const messages: OMMRecord[] = [];
+  let current: OMMRecord | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('COMMENT')) continue;
+
+    const match = line.match(/^([A-Z0-9_]+)\s*=\s*(.*?)\s*(\[[^\]]*\])?$/);
+    if (!match) continue;
+
+    const key = match[1].startsWith('USER_DEFINED_') ? match[1].substring('USER_DEFINED_'.length) : match[1];
+    if (key === 'CCSDS_OMM_VERS' || !current) {
+      current = {};
+      messages.push(current);
+    }
+    current[key] = match[2];
+  }
+
+  return messages;
+};
+
+const parseXML = (text: string): OMMRecord[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Malformed OMM XML document');
+  }
+
+  return Array.from(doc.getElementsByTagName('omm')).map(omm => {
+    const record: OMMRecord = {};
+    const version = omm.getAttribute('version');
+    if (version) record.CCSDS_OMM_VERS = version;
+
+    Array.from(omm.getElementsByTagName('*')).forEach(element => {
+      if (element.children.length > 0) return;
+      const value = element.textContent?.trim() ?? '';
+      if (element.tagName === 'USER_DEFINED') {
+        const parameter = element.getAttribute('parameter');
+        if (parameter) record[parameter] = value;
+      } else if (element.tagName !== 'COMMENT') {
+        record[element.tagName] = value;
+      }
+    });
+
+    return record;
+  });
+};
+
+const toGPRecord = (record: OMMRecord): SpaceTrackGPData => ({
+  ...record,
+  NORAD_CAT_ID: parseInt(record.NORAD_CAT_ID, 10),
+  OBJECT_NAME: record.OBJECT_NAME || '',
+  OBJECT_TYPE: record.OBJECT_TYPE || '',
+  EPOCH: record.EPOCH,
+  MEAN_MOTION: record.MEAN_MOTION,
+  ECCENTRICITY: record.ECCENTRICITY,
+  INCLINATION: record.INCLINATION,
+  SEMIMAJOR_AXIS: record.SEMIMAJOR_AXIS || '',
+  PERIOD: record.PERIOD || '',
+  APOAPSIS: record.APOAPSIS || '',
+  PERIAPSIS: record.PERIAPSIS || '',
+  TLE_LINE1: record.TLE_LINE1 || '',
+  TLE_LINE2: record.TLE_LINE2 || '',
+  COUNTRY_CODE: record.COUNTRY_CODE || '',
+  LAUNCH_DATE: record.LAUNCH_DATE || ''
+});
+
+/**
+ * Parses one or more OMMs (XML `<ndm>`/`<omm>` documents or concatenated KVN messages).
+ * Messages missing mean elements or using a non-SGP4 theory are reported in `errors`.
+ */
+export const parseOMM = (text: string): { records: SpaceTrackGPData[]; errors: string[] } => {
+  const format = detectOMMFormat(text);
+  if (!format) {
+    return { records: [], errors: ['Text is not an OMM in XML or KVN format'] };
+  }
+
+  let messages: OMMRecord[];
+  try {
+    messages = format === 'xml' ? parseXML(text) : parseKVN(text);
+  } catch (error) {
+    return { records: [], errors: [error.message] };
+  }
+
+  const records: SpaceTrackGPData[] = [];
+  const errors: string[] = [];
+
+  messages.forEach((message, index) => {
+    const label = message.OBJECT_NAME || `OMM #${index + 1}`;
+    const missing = REQUIRED_FIELDS.filter(field => !message[field]);
+    if (missing.length > 0) {
+      errors.push(`${label}: missing ${missing.join(', ')}`);
+      return;
+    }
+    const theory = message.MEAN_ELEMENT_THEORY?.toUpperCase();
+    if (theory && !theory.startsWith('SGP4')) {
+      errors.push(`${label}: unsupported mean element theory ${message.MEAN_ELEMENT_THEORY}`);
+      return;
+    }
+    records.push(toGPRecord(message));
+  });
+
+  return { records, errors };
+};
+
+const formatEpoch = (iso: string): string => iso.replace(/Z$/, '');
+
+export const satelliteToOMM = (satellite: Satellite): OMMRecord => {
+  const set = parseTLE(satellite.tle.line1, satellite.tle.line2, satellite.name);
+  const record: OMMRecord = {
+    CCSDS_OMM_VERS: '3.0',
+    CREATION_DATE: formatEpoch(new Date().toISOString()),
+    ORIGINATOR: 'ALCHEMIST',
+    OBJECT_NAME: satellite.name,
+    OBJECT_ID: set.internationalDesignator || 'UNKNOWN',
+    CENTER_NAME: 'EARTH',
+    REF_FRAME: 'TEME',
+    TIME_SYSTEM: 'UTC',
+    MEAN_ELEMENT_THEORY: 'SGP4',
+    EPOCH: formatEpoch(set.epoch),
+    MEAN_MOTION: set.meanMotion.toFixed(8),
+    ECCENTRICITY: set.eccentricity.toFixed(7),
+    INCLINATION: set.inclination.toFixed(4),
+    RA_OF_ASC_NODE: set.raan.toFixed(4),
+    ARG_OF_PERICENTER: set.argOfPericenter.toFixed(4),
+    MEAN_ANOMALY: set.meanAnomaly.toFixed(4),
+    EPHEMERIS_TYPE: '0',
+    CLASSIFICATION_TYPE: set.classification || 'U',
+    NORAD_CAT_ID: set.noradId.toString(),
+    ELEMENT_SET_NO: (set.elementSetNo ?? 999).toString(),
+    REV_AT_EPOCH: (set.revAtEpoch ?? 0).toString(),
+    BSTAR: Number(set.bstar.toPrecision(5)).toString(),
+    MEAN_MOTION_DOT: set.meanMotionDot.toFixed(8),
+    MEAN_MOTION_DDOT: Number(set.meanMotionDdot.toPrecision(5)).toString()
+  };
+
+  if (satellite.metadata?.country && satellite.metadata.country !== 'Unknown') {
+    record.COUNTRY_CODE = satellite.metadata.country;
+  }
+  return record;
+};
+
+const userDefinedFields = (record: OMMRecord) =>
+  Object.keys(record).filter(key => !STANDARD_FIELDS.has(key));
+
+export const formatOMMKVN = (records: OMMRecord[]): string =>
+  records.map(record => {
+    const lines = (keys: string[], prefix = '') => keys
+      .filter(key => record[key] !== undefined)
+      .map(key => {
+        const unit = KVN_UNITS[key] ? ` [${KVN_UNITS[key]}]` : '';
+        return `${`${prefix}${key}`.padEnd(20)} = ${record[key]}${unit}`;
+      });
+    return [
+      ...lines(HEADER_FIELDS),
+      '',
+      ...lines(METADATA_FIELDS),
+      '',
+      ...lines(MEAN_ELEMENT_FIELDS),
+      '',
+      ...lines(TLE_PARAMETER_FIELDS),
+      ...lines(userDefinedFields(record), 'USER_DEFINED_')
+    ].join('\n');
+  }).join('\n\n') + '\n';
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const formatOMMXML = (records: OMMRecord[]): string => {
+  const elements = (keys: string[], record: OMMRecord, indent: string) =>
+    keys.filter(key => record[key] !== undefined)
+      .map(key => `${indent}<${key}>${escapeXML(record[key])}</${key}>`)
+      .join('\n');
+
+  const messages = records.map(record => {
+    const userDefined = userDefinedFields(record)
+      .map(key => `            <USER_DEFINED parameter="${escapeXML(key)}">${escapeXML(record[key])}</USER_DEFINED>`)
+      .join('\n');
+
+    return [
+      `  <omm id="CCSDS_OMM_VERS" version="${escapeXML(record.CCSDS_OMM_VERS || '3.0')}">`,
+      '    <header>',
+      elements(['CREATION_DATE', 'ORIGINATOR'], record, '      '),
+      '    </header>',
+      '    <body>',
+      '      <segment>',
+      '        <metadata>',
+      elements(METADATA_FIELDS, record, '          '),
+      '        </metadata>',
+      '        <data>',
+      '          <meanElements>',
+      elements(MEAN_ELEMENT_FIELDS, record, '            '),
+      '          </meanElements>',
+      '          <tleParameters>',
+      elements(TLE_PARAMETER_FIELDS, record, '            '),
+      '          </tleParameters>',
+      ...(userDefined ? ['          <userDefinedParameters>', userDefined, '          </userDefinedParameters>'] : []),
+      '        </data>',
+      '      </segment>',
+      '    </body>',
+      '  </omm>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<ndm xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="https://sanaregistry.org/r/ndmxml_unqualified/ndmxml-3.0.0-master-3.0.xsd">',
+    ...messages,
+    '</ndm>',
+    ''
+  ].join('\n');
+};
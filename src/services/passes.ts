@@ -0,0 +1,124 @@
+// Pass prediction: when a satellite rises above, culminates over and sets below an
+// observer's horizon, from SGP4 look angles over the next few days.
+import * as satellite from 'satellite.js';
+import { LookAngles, PassInfo, UserLocation } from '../types/satellite.types';
+import { getSatrec } from './satrecCache';
+import { compassPoint } from './satelliteMotion';
+import { lookAngles, observerGeodetic } from './lookAngles';
+import { ElementSetSource } from './groundTrack';
+
+const DAY_MS = 86400000;
+// Coarse scan step: a fraction of the orbit, so even short low passes span a few samples
+const SAMPLES_PER_ORBIT = 120;
+const MIN_STEP_MS = 20000;
+const MAX_STEP_MS = 300000;
+// Rise, set and culmination are refined to within this
+const TIME_TOLERANCE_MS = 1000;
+
+export const PASS_DAY_OPTIONS = [1, 3, 7];
+export const DEFAULT_PASS_DAYS = 3;
+
+/**
+ * Passes above `minElevation` degrees between `start` (epoch ms) and `days` later.
+ * A pass in progress at either end of the window is cut at the window edge.
+ * The scan stops where SGP4 reports an error, e.g. once the orbit has decayed.
+ */
+export const predictPasses = (
+  sat: ElementSetSource,
+  orbitalPeriod: number,
+  observer: UserLocation,
+  start: number,
+  days = DEFAULT_PASS_DAYS,
+  minElevation = 0
+): PassInfo[] => {
+  if (!sat.tle?.line1 || !sat.tle?.line2) return [];
+  const record = getSatrec(sat.id, sat.tle.line1, sat.tle.line2);
+  if ('error' in record) return [];
+  const { satrec } = record;
+
+  const observerGd = observerGeodetic(observer);
+
+  const anglesAt = (time: number): LookAngles | null => {
+    const date = new Date(time);
+    const result = satellite.propagate(satrec, date);
+    if (!result || !result.position || typeof result.position !== 'object' || typeof result.velocity !== 'object') return null;
+    const angles = lookAngles(observerGd, result.position, result.velocity, date);
+    return isNaN(angles.elevation) ? null : angles;
+  };
+  const isUp = (time: number) => (anglesAt(time)?.elevation ?? -90) >= minElevation;
+
+  // Bisects between a sample below the horizon and one above it (in either order)
+  const crossing = (below: number, above: number): number => {
+    while (Math.abs(above - below) > TIME_TOLERANCE_MS) {
+      const mid = (below + above) / 2;
+      if (isUp(mid)) above = mid;
+      else below = mid;
+    }
+    return Math.round(above);
+  };
+
+  // Ternary search around the highest coarse sample; elevation is unimodal that close to the peak
+  const culmination = (from: number, to: number): number => {
+    let lo = from;
+    let hi = to;
+    while (hi - lo > TIME_TOLERANCE_MS) {
+      const a = lo + (hi - lo) / 3;
+      const b = hi - (hi - lo) / 3;
+      if ((anglesAt(a)?.elevation ?? -90) < (anglesAt(b)?.elevation ?? -90)) lo = a;
+      else hi = b;
+    }
+    return Math.round((lo + hi) / 2);
+  };
+
+  const end = start + days * DAY_MS;
+  const step = Math.min(MAX_STEP_MS, Math.max(MIN_STEP_MS, (orbitalPeriod * 60000) / SAMPLES_PER_ORBIT));
+  const passes: PassInfo[] = [];
+
+  const closePass = (rise: number, set: number, peak: number) => {
+    const riseAngles = anglesAt(rise);
+    const setAngles = anglesAt(set);
+    const culminationTime = culmination(Math.max(rise, peak - step), Math.min(set, peak + step));
+    const peakAngles = anglesAt(culminationTime);
+    if (!riseAngles || !setAngles || !peakAngles) return;
+    passes.push({
+      startTime: new Date(rise),
+      culminationTime: new Date(culminationTime),
+      endTime: new Date(set),
+      maxElevation: peakAngles.elevation,
+      duration: (set - rise) / 60000,
+      riseAzimuth: riseAngles.azimuth,
+      setAzimuth: setAngles.azimuth,
+      direction: `${compassPoint(riseAngles.azimuth)} → ${compassPoint(setAngles.azimuth)}`
+    });
+  };
+
+  let previous = start;
+  const first = anglesAt(start);
+  if (!first) return [];
+  let rise: number | null = first.elevation >= minElevation ? start : null;
+  let peak = start;
+  let peakElevation = first.elevation;
+
+  for (let time = Math.min(start + step, end); time > previous; time = Math.min(time + step, end)) {
+    const angles = anglesAt(time);
+    if (!angles) break;
+    const up = angles.elevation >= minElevation;
+
+    if (rise === null && up) {
+      rise = crossing(previous, time);
+      peak = time;
+      peakElevation = angles.elevation;
+    } else if (rise !== null && up && angles.elevation > peakElevation) {
+      peak = time;
+      peakElevation = angles.elevation;
+    } else if (rise !== null && !up) {
+      closePass(rise, crossing(time, previous), peak);
+      rise = null;
+      peakElevation = -90;
+    }
+    previous = time;
+  }
+
+  if (rise !== null) closePass(rise, previous, peak);
+  return passes;
+};
@@ -0,0 +1,176 @@
+// Batch SGP4 propagation of a whole catalog into typed arrays, shared by the
+// propagation worker pool and its main-thread fallback.
+import * as satellite from 'satellite.js';
+import { Satellite, UserLocation } from '../types/satellite.types';
+import { parseEpoch } from './tle';
+import { applyPropagation, propagateSatrec, validateTLE } from './tleValidation';
+import { getSatrec } from './satrecCache';
+import { observerGeodetic } from './lookAngles';
+
+// Same scale as the globe: Earth's 6371 km radius is 5 scene units
+const SCENE_EARTH_RADIUS = 5;
+const SCENE_UNITS_PER_KM = SCENE_EARTH_RADIUS / 6371;
+
+export interface ElementSetInput {
+  noradId: string;
+  line1: string;
+  line2: string;
+}
+
+/** Positions for a run of element sets at one time, three values per object (four for look angles). */
+export interface PropagationChunk {
+  geodetic: Float64Array; // latitude, longitude (degrees), altitude (km); NaN where propagation failed
+  scene: Float32Array; // x, y, z in globe scene units; NaN where propagation failed
+  motion: Float32Array; // inertial speed, ground speed (km/s), heading (degrees); NaN where propagation failed
+  look: Float32Array; // azimuth, elevation (degrees), range (km), range-rate (km/s); NaN without an observer
+  sunlit: Uint8Array; // one per object: 1 outside the Earth's shadow
+  epochs: Float64Array; // element set epoch (ms); NaN where the lines do not parse
+  errors: Record<number, string>; // index -> why the object has no position
+}
+
+/** A chunk for the whole catalog, in the order of `ids`. */
+export interface PropagationFrame extends PropagationChunk {
+  time: number;
+  ids: string[];
+}
+
+// Posted to a propagation worker
+export type PropagationRequest =
+  | { type: 'load'; generation: number; elementSets: ElementSetInput[] }
+  | { type: 'propagate'; generation: number; requestId: number; time: number; observer: UserLocation | null };
+
+// Posted back by a propagation worker
+export interface PropagationResponse {
+  type: 'chunk';
+  generation: number;
+  requestId: number;
+  chunk: PropagationChunk;
+}
+
+export interface LoadedElementSet {
+  satrec: satellite.SatRec | null;
+  epoch: number;
+  error?: string;
+}
+
+/** Validates each element set and takes its satrec from the cache, so only SGP4 itself runs per time step. */
+export const loadElementSets = (elementSets: ElementSetInput[]): LoadedElementSet[] =>
+  elementSets.map(({ noradId, line1, line2 }) => {
+    const { elementSet, errors } = validateTLE(line1, line2);
+    if (!elementSet) return { satrec: null, epoch: NaN, error: errors[0] };
+    const epoch = parseEpoch(elementSet.epoch).getTime();
+    const record = getSatrec(noradId, line1, line2);
+    return 'error' in record ? { satrec: null, epoch, error: record.error } : { satrec: record.satrec, epoch };
+  });
+
+export const propagateElementSets = (
+  loaded: LoadedElementSet[],
+  time: number,
+  observer: UserLocation | null = null
+): PropagationChunk => {
+  const date = new Date(time);
+  const observerGd = observer && observerGeodetic(observer);
+  const geodetic = new Float64Array(loaded.length * 3).fill(NaN);
+  const scene = new Float32Array(loaded.length * 3).fill(NaN);
+  const motion = new Float32Array(loaded.length * 3).fill(NaN);
+  const look = new Float32Array(loaded.length * 4).fill(NaN);
+  const sunlit = new Uint8Array(loaded.length);
+  const epochs = new Float64Array(loaded.length);
+  const errors: Record<number, string> = {};
+
+  loaded.forEach(({ satrec, epoch, error }, index) => {
+    epochs[index] = epoch;
+    if (!satrec) {
+      errors[index] = error;
+      return;
+    }
+    const result = propagateSatrec(satrec, date, observerGd);
+    if ('error' in result) {
+      errors[index] = result.error;
+      return;
+    }
+    const { latitude, longitude, altitude } = result.position;
+    const offset = index * 3;
+    geodetic[offset] = latitude;
+    geodetic[offset + 1] = longitude;
+    geodetic[offset + 2] = altitude;
+    motion[offset] = result.motion.velocity;
+    motion[offset + 1] = result.motion.groundSpeed;
+    motion[offset + 2] = result.motion.heading;
+    sunlit[index] = result.sunlit ? 1 : 0;
+    if (result.lookAngles) {
+      const { azimuth, elevation, range, rangeRate } = result.lookAngles;
+      look.set([azimuth, elevation, range, rangeRate], index * 4);
+    }
+
+    const lat = (latitude * Math.PI) / 180;
+    const lon = (longitude * Math.PI) / 180;
+    const radius = SCENE_EARTH_RADIUS + altitude * SCENE_UNITS_PER_KM;
+    scene[offset] = radius * Math.cos(lat) * Math.cos(lon);
+    scene[offset + 1] = radius * Math.sin(lat);
+    scene[offset + 2] = radius * Math.cos(lat) * Math.sin(lon);
+  });
+
+  return { geodetic, scene, motion, look, sunlit, epochs, errors };
+};
+
+// The engine reuses its ids array until the catalog is reloaded, so the lookup is built once per load
+const frameIndexes = new WeakMap<string[], Map<string, number>>();
+
+/** Each object's index in the frame's arrays. */
+export const frameIndex = (frame: PropagationFrame): Map<string, number> => {
+  let index = frameIndexes.get(frame.ids);
+  if (!index) {
+    index = new Map(frame.ids.map((id, position) => [id, position]));
+    frameIndexes.set(frame.ids, index);
+  }
+  return index;
+};
+
+/** Copies the frame's positions and flags onto the satellites it was propagated for. */
+export const applyPropagationFrame = (
+  satellites: Satellite[],
+  frame: PropagationFrame,
+  footprintMinElevation?: number
+): Satellite[] => {
+  const time = new Date(frame.time);
+  const indexById = frameIndex(frame);
+  return satellites.map(sat => {
+    const index = indexById.get(sat.id);
+    if (index === undefined) return sat;
+    const error = frame.errors[index];
+    const offset = index * 3;
+    const lookOffset = index * 4;
+    const result = error !== undefined
+      ? { error }
+      : {
+          position: {
+            latitude: frame.geodetic[offset],
+            longitude: frame.geodetic[offset + 1],
+            altitude: frame.geodetic[offset + 2]
+          },
+          motion: {
+            velocity: frame.motion[offset],
+            groundSpeed: frame.motion[offset + 1],
+            heading: frame.motion[offset + 2]
+          },
+          sunlit: frame.sunlit[index] === 1,
+          ...(Number.isFinite(frame.look[lookOffset]) && {
+            lookAngles: {
+              azimuth: frame.look[lookOffset],
+              elevation: frame.look[lookOffset + 1],
+              range: frame.look[lookOffset + 2],
+              rangeRate: frame.look[lookOffset + 3]
+            }
+          })
+        };
+    return applyPropagation(sat, result, frame.epochs[index], time, footprintMinElevation);
+  });
+};
+
+// Scene coordinates of one object in the frame, or null when it has none
+export const framePosition = (frame: PropagationFrame, index: number): [number, number, number] | null => {
+  const offset = index * 3;
+  const x = frame.scene[offset];
+  return Number.isFinite(x) ? [x, frame.scene[offset + 1], frame.scene[offset + 2]] : null;
+};
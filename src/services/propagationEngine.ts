@@ -0,0 +1,165 @@
+// Propagates the catalog in a pool of Web Workers. Each worker keeps initialized
+// satrecs for a contiguous slice of the catalog; a time step posts only the time
+// and gets positions back as transferred typed arrays.
+import { Satellite, UserLocation } from '../types/satellite.types';
+import {
+  ElementSetInput,
+  LoadedElementSet,
+  loadElementSets,
+  PropagationChunk,
+  PropagationFrame,
+  propagateElementSets,
+  PropagationRequest,
+  PropagationResponse
+} from './propagationBatch';
+
+// SGP4 is CPU bound, so more workers than spare cores only adds overhead
+const MAX_WORKERS = 4;
+
+interface PendingFrame {
+  generation: number;
+  time: number;
+  chunks: PropagationChunk[];
+  remaining: number;
+  resolve: (frame: PropagationFrame | null) => void;
+  reject: (error: Error) => void;
+}
+
+const mergeChunks = (chunks: PropagationChunk[], sizes: number[]): PropagationChunk => {
+  if (chunks.length === 1) return chunks[0];
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  const merged: PropagationChunk = {
+    geodetic: new Float64Array(total * 3),
+    scene: new Float32Array(total * 3),
+    motion: new Float32Array(total * 3),
+    look: new Float32Array(total * 4),
+    sunlit: new Uint8Array(total),
+    epochs: new Float64Array(total),
+    errors: {}
+  };
+  let start = 0;
+  chunks.forEach((chunk, index) => {
+    merged.geodetic.set(chunk.geodetic, start * 3);
+    merged.scene.set(chunk.scene, start * 3);
+    merged.motion.set(chunk.motion, start * 3);
+    merged.look.set(chunk.look, start * 4);
+    merged.sunlit.set(chunk.sunlit, start);
+    merged.epochs.set(chunk.epochs, start);
+    Object.entries(chunk.errors).forEach(([offset, error]) => {
+      merged.errors[start + Number(offset)] = error;
+    });
+    start += sizes[index];
+  });
+  return merged;
+};
+
+export class PropagationEngine {
+  private workers: Worker[] | null = null;
+  private workersFailed = false;
+  private generation = 0;
+  private nextRequestId = 0;
+  private ids: string[] = [];
+  private elementSets: ElementSetInput[] = [];
+  private sliceSizes: number[] = [];
+  private pending = new Map<number, PendingFrame>();
+  // Main-thread fallback when workers are unavailable
+  private loaded: LoadedElementSet[] = [];
+
+  private createWorkers(): Worker[] | null {
+    if (this.workersFailed || typeof Worker === 'undefined') return null;
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    const count = Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+    try {
+      return Array.from({ length: count }, (_, index) => {
+        const worker = new Worker(new URL('../workers/propagation.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<PropagationResponse>) => this.receive(index, event.data);
+        worker.onerror = (event) => this.fail(event.message || 'Propagation worker failed');
+        return worker;
+      });
+    } catch (error) {
+      console.warn('Propagation workers unavailable, propagating on the main thread:', error);
+      this.workersFailed = true;
+      return null;
+    }
+  }
+
+  private receive(workerIndex: number, response: PropagationResponse) {
+    const request = this.pending.get(response.requestId);
+    if (!request) return;
+    request.chunks[workerIndex] = response.chunk;
+    request.remaining -= 1;
+    if (request.remaining > 0) return;
+
+    this.pending.delete(response.requestId);
+    // A newer catalog was loaded while this step was in flight
+    if (request.generation !== this.generation || response.generation !== this.generation) {
+      request.resolve(null);
+      return;
+    }
+    request.resolve({ ...mergeChunks(request.chunks, this.sliceSizes), time: request.time, ids: this.ids });
+  }
+
+  // A broken worker takes the pool down; the catalog is reloaded on the main thread
+  private fail(message: string) {
+    console.error('Propagation worker error, falling back to the main thread:', message);
+    this.workersFailed = true;
+    this.workers?.forEach(worker => worker.terminate());
+    this.workers = null;
+    this.loaded = loadElementSets(this.elementSets);
+    this.pending.forEach(request => request.reject(new Error(message)));
+    this.pending.clear();
+  }
+
+  /** Hands the catalog's element sets to the workers; later frames follow this order. */
+  load(satellites: Satellite[]) {
+    this.generation += 1;
+    this.ids = satellites.map(sat => sat.id);
+    this.elementSets = satellites.map(sat => ({
+      noradId: sat.id,
+      line1: sat.tle?.line1 ?? '',
+      line2: sat.tle?.line2 ?? ''
+    }));
+
+    if (!this.workers) this.workers = this.createWorkers();
+    if (!this.workers) {
+      this.sliceSizes = [this.elementSets.length];
+      this.loaded = loadElementSets(this.elementSets);
+      return;
+    }
+
+    const sliceSize = Math.ceil(this.elementSets.length / this.workers.length);
+    this.sliceSizes = this.workers.map((worker, index) => {
+      const elementSets = this.elementSets.slice(index * sliceSize, (index + 1) * sliceSize);
+      const request: PropagationRequest = { type: 'load', generation: this.generation, elementSets };
+      worker.postMessage(request);
+      return elementSets.length;
+    });
+  }
+
+  /**
+   * Resolves with positions at `time`, and look angles from `observer` when given,
+   * or null if a newer catalog was loaded in the meantime.
+   */
+  propagate(time: number, observer: UserLocation | null = null): Promise<PropagationFrame | null> {
+    if (!this.workers) {
+      return Promise.resolve({ ...propagateElementSets(this.loaded, time, observer), time, ids: this.ids });
+    }
+
+    const requestId = ++this.nextRequestId;
+    const workers = this.workers;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, {
+        generation: this.generation,
+        time,
+        chunks: [],
+        remaining: workers.length,
+        resolve,
+        reject
+      });
+      const request: PropagationRequest = { type: 'propagate', generation: this.generation, requestId, time, observer };
+      workers.forEach(worker => worker.postMessage(request));
+    });
+  }
+}
+
+export const propagationEngine = new PropagationEngine();
@@ -0,0 +1,129 @@
+// Reentry predictions from Space-Track `decay` and `tip` messages, attached to catalog
+// objects and used to sketch the final ground track before the predicted reentry.
+import { ReentryPrediction, Satellite } from '../types/satellite.types';
+import { ElementSetSource, GroundTrackPoint, propagateGroundTrack } from './groundTrack';
+
+// Space-Track `decay` class
+export interface SpaceTrackDecayData {
+  NORAD_CAT_ID: number | string;
+  OBJECT_NAME?: string;
+  DECAY_EPOCH: string;
+  MSG_EPOCH: string;
+  MSG_TYPE?: string; // Prediction or Historical
+  SOURCE?: string;
+}
+
+// Space-Track `tip` class
+export interface SpaceTrackTIPData {
+  NORAD_CAT_ID: number | string;
+  DECAY_EPOCH: string;
+  MSG_EPOCH: string;
+  WINDOW?: number | string; // minutes
+  DIRECTION?: string;
+  LAT?: number | string;
+  LON?: number | string;
+  HIGH_INTEREST?: string;
+}
+
+// Space-Track datetimes are UTC without a zone ("2026-10-20 13:42:00")
+const toISO = (value: string): string => {
+  const normalized = value.trim().replace(' ', 'T');
+  const hasZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(normalized);
+  return new Date(hasZone ? normalized : `${normalized}Z`).toISOString();
+};
+
+const toNumber = (value: number | string | undefined): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(number) ? undefined : number;
+};
+
+export const fromDecayMessage = (record: SpaceTrackDecayData): ReentryPrediction => ({
+  noradId: String(record.NORAD_CAT_ID),
+  name: record.OBJECT_NAME,
+  source: 'decay',
+  decayEpoch: toISO(record.DECAY_EPOCH),
+  messageEpoch: toISO(record.MSG_EPOCH)
+});
+
+export const fromTIPMessage = (record: SpaceTrackTIPData): ReentryPrediction => {
+  const direction = record.DIRECTION?.toLowerCase();
+  return {
+    noradId: String(record.NORAD_CAT_ID),
+    source: 'tip',
+    decayEpoch: toISO(record.DECAY_EPOCH),
+    windowMinutes: toNumber(record.WINDOW),
+    messageEpoch: toISO(record.MSG_EPOCH),
+    latitude: toNumber(record.LAT),
+    longitude: toNumber(record.LON),
+    direction: direction === 'ascending' || direction === 'descending' ? direction : undefined,
+    highInterest: record.HIGH_INTEREST === 'Y'
+  };
+};
+
+/**
+ * Keeps the most recent prediction per object. TIP messages win ties because
+ * they carry a reentry window and location.
+ */
+export const latestPredictions = (predictions: ReentryPrediction[]): ReentryPrediction[] => {
+  const latest = new Map<string, ReentryPrediction>();
+  predictions.forEach(prediction => {
+    const current = latest.get(prediction.noradId);
+    const isNewer = !current
+      || prediction.messageEpoch > current.messageEpoch
+      || (prediction.messageEpoch === current.messageEpoch && prediction.source === 'tip');
+    if (isNewer) {
+      // Decay messages carry the object name, TIP messages do not
+      latest.set(prediction.noradId, { ...prediction, name: prediction.name ?? current?.name });
+    }
+  });
+  return Array.from(latest.values()).sort((a, b) => a.decayEpoch.localeCompare(b.decayEpoch));
+};
+
+// Reentries still ahead of us, allowing for the prediction window
+export const upcomingReentries = (predictions: ReentryPrediction[], now = Date.now()): ReentryPrediction[] =>
+  predictions.filter(prediction =>
+    new Date(prediction.decayEpoch).getTime() + (prediction.windowMinutes ?? 0) * 60000 > now
+  );
+
+export const attachReentryPredictions = (satellites: Satellite[], predictions: ReentryPrediction[]): Satellite[] => {
+  if (predictions.length === 0) return satellites;
+  const byId = new Map(predictions.map(prediction => [prediction.noradId, prediction]));
+  return satellites.map(sat => {
+    const reentry = byId.get(sat.id);
+    return reentry ? { ...sat, reentry } : sat;
+  });
+};
+
+/**
+ * Propagates the element set through the span leading up to the predicted reentry
+ * (at least half an orbit, or the TIP window) and through the window after it.
+ * Propagation stops where SGP4 reports the orbit has decayed.
+ */
+export const predictFinalGroundTrack = (
+  sat: ElementSetSource,
+  reentry: ReentryPrediction | undefined,
+  orbitalPeriod: number,
+  steps = 120
+): GroundTrackPoint[] => {
+  if (!reentry) return [];
+
+  const center = new Date(reentry.decayEpoch).getTime();
+  const period = orbitalPeriod || 90;
+  const window = reentry.windowMinutes ?? 0;
+  const start = center - Math.min(Math.max(window, period / 2), period * 1.5) * 60000;
+  const end = center + Math.min(window, period / 2) * 60000;
+  return propagateGroundTrack(sat, start, end, steps);
+};
+
+export const formatCountdown = (target: string, now = Date.now()): string => {
+  const diff = new Date(target).getTime() - now;
+  if (diff <= 0) return 'IN WINDOW';
+  const totalMinutes = Math.floor(diff / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours.toString().padStart(2, '0')}h ${minutes.toString().padStart(2, '0')}m`;
+  const seconds = Math.floor((diff % 60000) / 1000);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,158 @@
+// Satellite catalog (SATCAT) records: international designator, object type, owner,
+// launch site, decay date and radar cross-section, merged into Satellite.metadata.
+import { CatalogObjectType, RCSSize, Satellite } from '../types/satellite.types';
+
+// Space-Track `satcat` class (https://www.space-track.org/basicspacedata/modeldef/class/satcat)
+export interface SpaceTrackSatcatData {
+  NORAD_CAT_ID: number | string;
+  INTLDES?: string | null;
+  OBJECT_TYPE?: string | null; // PAYLOAD, ROCKET BODY, DEBRIS, UNKNOWN, TBA
+  SATNAME?: string;
+  COUNTRY?: string | null;
+  LAUNCH?: string | null;
+  SITE?: string | null;
+  DECAY?: string | null;
+  RCS_SIZE?: string | null;
+}
+
+// CelesTrak SATCAT JSON (https://celestrak.org/satcat/records.php)
+export interface CelesTrakSatcatData {
+  NORAD_CAT_ID: number | string;
+  OBJECT_ID?: string | null;
+  OBJECT_TYPE?: string | null; // PAY, R/B, DEB, UNK
+  OWNER?: string | null;
+  LAUNCH_DATE?: string | null;
+  LAUNCH_SITE?: string | null;
+  DECAY_DATE?: string | null;
+  RCS?: number | string | null; // m²
+  OPS_STATUS_CODE?: string | null;
+}
+
+export interface SatcatRecord {
+  noradId: string;
+  intlDesignator?: string;
+  objectType?: CatalogObjectType;
+  owner?: string;
+  launchDate?: string;
+  launchSite?: string;
+  decayDate?: string;
+  rcsSize?: RCSSize;
+  opsStatusCode?: string;
+}
+
+export const LAUNCH_SITE_NAMES: Record<string, string> = {
+  AFETR: 'Cape Canaveral',
+  AFWTR: 'Vandenberg',
+  ERAS: 'Eastern Range Airspace',
+  FRGUI: 'Kourou',
+  JSC: 'Jiuquan',
+  KODAK: 'Kodiak',
+  KSCUT: 'Uchinoura',
+  KWAJ: 'Kwajalein',
+  KYMSC: 'Kapustin Yar',
+  NSC: 'Naro',
+  PKMTR: 'Plesetsk',
+  RLLB: 'Rocket Lab Mahia',
+  SEAL: 'Sea Launch',
+  SNMLP: 'San Marco',
+  SRILR: 'Sriharikota',
+  SVOBO: 'Svobodny',
+  TNSTA: 'Tanegashima',
+  TSC: 'Taiyuan',
+  TTMTR: 'Tonghae',
+  TYMSC: 'Baikonur',
+  VOSTO: 'Vostochny',
+  WLPIS: 'Wallops Island',
+  WOMRA: 'Woomera',
+  WRAS: 'Western Range Airspace',
+  WSC: 'Wenchang',
+  XSC: 'Xichang',
+  YAVNE: 'Palmachim',
+  YUN: 'Sohae'
+};
+
+export const OBJECT_TYPE_LABELS: Record<CatalogObjectType, string> = {
+  'payload': 'Payload',
+  'rocket-body': 'Rocket body',
+  'debris': 'Debris',
+  'unknown': 'Unknown'
+};
+
+export const formatLaunchSite = (code: string | undefined): string => {
+  if (!code) return 'Unknown';
+  return LAUNCH_SITE_NAMES[code] ? `${LAUNCH_SITE_NAMES[code]} (${code})` : code;
+};
+
+const clean = (value: string | number | null | undefined): string | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text ? text : undefined;
+};
+
+// Accepts both Space-Track (ROCKET BODY) and CelesTrak (R/B) spellings
+export const normalizeObjectType = (value: string | null | undefined): CatalogObjectType | undefined => {
+  const type = clean(value)?.toUpperCase();
+  if (!type) return undefined;
+  if (type === 'PAYLOAD' || type === 'PAY') return 'payload';
+  if (type === 'ROCKET BODY' || type === 'R/B') return 'rocket-body';
+  if (type === 'DEBRIS' || type === 'DEB') return 'debris';
+  return 'unknown';
+};
+
+export const normalizeRCSSize = (value: string | null | undefined): RCSSize | undefined => {
+  const size = clean(value)?.toLowerCase();
+  return size === 'small' || size === 'medium' || size === 'large' ? size : undefined;
+};
+
+export const rcsSizeFromArea = (area: number | string | null | undefined): RCSSize | undefined => {
+  const value = typeof area === 'number' ? area : parseFloat(area ?? '');
+  if (isNaN(value)) return undefined;
+  return value < 0.1 ? 'small' : value <= 1 ? 'medium' : 'large';
+};
+
+export const fromSpaceTrackSatcat = (record: SpaceTrackSatcatData): SatcatRecord => ({
+  noradId: String(record.NORAD_CAT_ID),
+  intlDesignator: clean(record.INTLDES),
+  objectType: normalizeObjectType(record.OBJECT_TYPE),
+  owner: clean(record.COUNTRY),
+  launchDate: clean(record.LAUNCH),
+  launchSite: clean(record.SITE),
+  decayDate: clean(record.DECAY),
+  rcsSize: normalizeRCSSize(record.RCS_SIZE)
+});
+
+export const fromCelesTrakSatcat = (record: CelesTrakSatcatData): SatcatRecord => ({
+  noradId: String(record.NORAD_CAT_ID),
+  intlDesignator: clean(record.OBJECT_ID),
+  objectType: normalizeObjectType(record.OBJECT_TYPE),
+  owner: clean(record.OWNER),
+  launchDate: clean(record.LAUNCH_DATE),
+  launchSite: clean(record.LAUNCH_SITE),
+  decayDate: clean(record.DECAY_DATE),
+  rcsSize: rcsSizeFromArea(record.RCS),
+  opsStatusCode: clean(record.OPS_STATUS_CODE)
+});
+
+/**
+ * Merges SATCAT records into the catalog by NORAD ID. Only fields the record
+ * actually carries are applied, so GP-derived values survive gaps in the SATCAT.
+ */
+export const applySatcat = (satellites: Satellite[], records: SatcatRecord[]): Satellite[] => {
+  if (records.length === 0) return satellites;
+
+  const recordsById = new Map(records.map(record => [record.noradId, record]));
+  return satellites.map(sat => {
+    const record = recordsById.get(sat.id);
+    if (!record) return sat;
+
+    const { noradId, ...fields } = record;
+    const metadata = { ...sat.metadata };
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value !== undefined) metadata[key] = value;
+    });
+    // The SATCAT owner is the same code GP records carry as COUNTRY_CODE
+    if (record.owner) metadata.country = record.owner;
+
+    return { ...sat, metadata };
+  });
+};
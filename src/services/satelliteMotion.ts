@@ -0,0 +1,74 @@
+// Speed and ground-track heading from the SGP4 state vector, and the coverage
+// footprint of a satellite at a given altitude.
+import * as satellite from 'satellite.js';
+
+const EARTH_RADIUS_KM = 6371;
+// Over one second, stepping along the velocity vector is within metres of SGP4
+const HEADING_STEP_SECONDS = 1;
+// Geometric horizon; raise it for the coverage of ground stations that need the satellite higher in the sky
+export const DEFAULT_FOOTPRINT_MIN_ELEVATION = 0;
+
+export interface SatelliteMotion {
+  velocity: number; // inertial speed, km/s
+  groundSpeed: number; // speed of the sub-satellite point over the surface, km/s
+  heading: number; // ground-track direction, degrees clockwise from north
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Inertial speed is the length of the velocity vector. Ground speed and heading
+ * come from the sub-satellite point now and one step along the velocity vector,
+ * so they include the Earth turning underneath.
+ */
+export const satelliteMotion = (
+  position: satellite.EciVec3<satellite.Kilometer>,
+  velocity: satellite.EciVec3<satellite.KilometerPerSecond>,
+  date: Date
+): SatelliteMotion => {
+  const step = HEADING_STEP_SECONDS;
+  const here = satellite.eciToGeodetic(position, satellite.gstime(date));
+  const there = satellite.eciToGeodetic(
+    { x: position.x + velocity.x * step, y: position.y + velocity.y * step, z: position.z + velocity.z * step },
+    satellite.gstime(new Date(date.getTime() + step * 1000))
+  );
+
+  const deltaLon = there.longitude - here.longitude;
+  // Haversine distance and initial bearing between the two sub-satellite points
+  const a = Math.sin((there.latitude - here.latitude) / 2) ** 2
+    + Math.cos(here.latitude) * Math.cos(there.latitude) * Math.sin(deltaLon / 2) ** 2;
+  const distance = 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+  const bearing = Math.atan2(
+    Math.sin(deltaLon) * Math.cos(there.latitude),
+    Math.cos(here.latitude) * Math.sin(there.latitude) - Math.sin(here.latitude) * Math.cos(there.latitude) * Math.cos(deltaLon)
+  );
+
+  return {
+    velocity: Math.hypot(velocity.x, velocity.y, velocity.z),
+    groundSpeed: distance / step,
+    heading: (toDegrees(bearing) + 360) % 360
+  };
+};
+
+/**
+ * Ground radius (km) of the area that sees the satellite at least `minElevation`
+ * degrees above the horizon: the Earth central angle to that elevation, times R.
+ */
+export const footprintRadius = (altitude: number, minElevation = DEFAULT_FOOTPRINT_MIN_ELEVATION): number => {
+  if (!(altitude > 0)) return 0;
+  const elevation = toRadians(minElevation);
+  const centralAngle = Math.acos((EARTH_RADIUS_KM * Math.cos(elevation)) / (EARTH_RADIUS_KM + altitude)) - elevation;
+  return Math.max(0, EARTH_RADIUS_KM * centralAngle);
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Nearest of the eight compass points to a bearing in degrees
+export const compassPoint = (bearing: number): string =>
+  COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 45) % 8];
+
+export const formatHeading = (heading: number | undefined): string =>
+  heading === undefined || !Number.isFinite(heading)
+    ? 'N/A'
+    : `${heading.toFixed(0)}° ${compassPoint(heading)}`;
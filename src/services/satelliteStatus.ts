@@ -0,0 +1,66 @@
+// Derives Satellite.status from decay dates, SATCAT operational status codes,
+// what kind of object it is, how its orbit behaves and how recently it was tracked.
+import { Satellite, SatelliteStatus } from '../types/satellite.types';
+import { parseEpoch } from './tle';
+
+// Well past the point an element set turns suspect: the object is no longer being tracked
+const UNTRACKED_EPOCH_DAYS = 60;
+// Graveyard orbits are raised at least ~300 km above the geostationary belt (35,786 km)
+const GEO_GRAVEYARD_PERIGEE = 36100;
+
+// CelesTrak SATCAT OPS_STATUS_CODE (https://celestrak.org/satcat/status.php)
+const OPS_STATUS: Record<string, { status: SatelliteStatus; label: string }> = {
+  '+': { status: 'active', label: 'Operational' },
+  'P': { status: 'active', label: 'Partially operational' },
+  'B': { status: 'active', label: 'Backup/standby' },
+  'S': { status: 'active', label: 'Spare' },
+  'X': { status: 'active', label: 'Extended mission' },
+  '-': { status: 'inactive', label: 'Nonoperational' },
+  'D': { status: 'decayed', label: 'Decayed' },
+  '?': { status: 'unknown', label: 'Unknown' }
+};
+
+export interface DerivedStatus {
+  status: SatelliteStatus;
+  reason: string;
+}
+
+export const formatOpsStatus = (code: string | undefined): string =>
+  code && OPS_STATUS[code] ? `${OPS_STATUS[code].label} (${code})` : 'Unknown';
+
+// SATCAT decay dates are usually date-only; read those as midnight UTC
+const parseDecayDate = (date: string): Date =>
+  parseEpoch(/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00` : date);
+
+/**
+ * Checks run from most to least certain. `decayed` is set when SGP4 reports the
+ * orbit has decayed, which catches reentries the SATCAT has not recorded yet.
+ */
+export const deriveStatus = (sat: Satellite, time: Date, decayed = false): DerivedStatus => {
+  const { metadata, orbital } = sat;
+
+  if (metadata?.decayDate && parseDecayDate(metadata.decayDate).getTime() <= time.getTime()) {
+    return { status: 'decayed', reason: `Decayed ${metadata.decayDate.substring(0, 10)}` };
+  }
+  if (decayed) return { status: 'decayed', reason: 'SGP4 reports the orbit has decayed' };
+
+  const ops = metadata?.opsStatusCode ? OPS_STATUS[metadata.opsStatusCode] : undefined;
+  if (ops) return { status: ops.status, reason: `SATCAT operational status: ${ops.label}` };
+
+  if (metadata?.objectType === 'rocket-body' || metadata?.objectType === 'debris' || sat.type === 'rocket-body' || sat.type === 'debris') {
+    return { status: 'inactive', reason: 'Rocket bodies and debris are not operational' };
+  }
+  if (orbital.perigee > GEO_GRAVEYARD_PERIGEE && orbital.eccentricity < 0.1) {
+    return { status: 'inactive', reason: 'In a graveyard orbit above the geostationary belt' };
+  }
+
+  const ageDays = (time.getTime() - parseEpoch(orbital.epoch).getTime()) / 86400000;
+  if (ageDays > UNTRACKED_EPOCH_DAYS) {
+    return { status: 'unknown', reason: `No element set for ${Math.floor(ageDays)} days` };
+  }
+
+  if (metadata?.objectType === 'payload') {
+    return { status: 'active', reason: 'Tracked payload with no sign of retirement' };
+  }
+  return { status: 'unknown', reason: 'No SATCAT object type or operational status' };
+};
@@ -0,0 +1,49 @@
+// Initialized SGP4 records keyed by NORAD ID and element set epoch. twoline2satrec runs
+// SGP4's initialization, so each element set is initialized once and reused for every
+// position, path and pass until a newer element set for the object arrives.
+import * as satellite from 'satellite.js';
+
+const SGP4_ERRORS: Record<number, string> = {
+  [satellite.SatRecError.MeanEccentricityOutOfRange]: 'SGP4: mean eccentricity out of range',
+  [satellite.SatRecError.MeanMotionBelowZero]: 'SGP4: mean motion below zero',
+  [satellite.SatRecError.PerturbedEccentricityOutOfRange]: 'SGP4: perturbed eccentricity out of range',
+  [satellite.SatRecError.SemiLatusRectumBelowZero]: 'SGP4: semi-latus rectum below zero',
+  [satellite.SatRecError.Decayed]: 'SGP4: orbit has decayed'
+};
+
+export const sgp4Error = (code: number): string => SGP4_ERRORS[code] ?? `SGP4 error ${code}`;
+
+export type SatrecResult = { satrec: satellite.SatRec } | { error: string };
+
+interface CachedSatrec {
+  epoch: string;
+  line1: string;
+  line2: string;
+  result: SatrecResult;
+}
+
+// One entry per object: a new epoch replaces the old record
+const cache = new Map<string, CachedSatrec>();
+
+/**
+ * The initialized record for an element set, or why SGP4 could not initialize it.
+ * The lines should already have passed validateTLE().
+ */
+export const getSatrec = (noradId: string, line1: string, line2: string): SatrecResult => {
+  const epoch = line1.substring(18, 32);
+  const cached = cache.get(noradId);
+  // An edited element set that kept its epoch counts as new too
+  if (cached && cached.epoch === epoch && cached.line1 === line1 && cached.line2 === line2) {
+    return cached.result;
+  }
+
+  let result: SatrecResult;
+  try {
+    const satrec = satellite.twoline2satrec(line1, line2);
+    result = satrec.error ? { error: sgp4Error(satrec.error) } : { satrec };
+  } catch (error) {
+    result = { error: `Propagation failed: ${error.message}` };
+  }
+  cache.set(noradId, { epoch, line1, line2, result });
+  return result;
+};
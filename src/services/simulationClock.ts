@@ -0,0 +1,55 @@
+// Simulation clock: the time every propagation step is computed for. The clock runs
+// from an anchor (a simulation time and the wall-clock moment it was set) at
+// timeSpeed, so its state only changes when the user changes it, not on every tick.
+import { Globe3DSettings } from '../types/satellite.types';
+
+export type ClockSettings = Pick<Globe3DSettings, 'simulationTime' | 'clockAnchor' | 'timeSpeed' | 'isPaused'>;
+
+// Offered multipliers; negative ones run the clock backwards
+export const TIME_SPEEDS = [-3600, -600, -60, -10, -1, 1, 10, 60, 600, 3600];
+// How far either side of now the timeline scrubber reaches
+export const SCRUB_RANGE_HOURS = 24;
+const LIVE_UPDATE_MS = 15000;
+// Warped time needs frequent steps, or satellites jump minutes at a time
+const WARP_UPDATE_MS = 1000;
+
+export const isLive = (clock: ClockSettings): boolean => clock.simulationTime === null;
+
+export const clockTime = (clock: ClockSettings, now = Date.now()): number => {
+  if (clock.simulationTime === null) return now;
+  if (clock.isPaused) return clock.simulationTime;
+  return clock.simulationTime + (now - clock.clockAnchor) * clock.timeSpeed;
+};
+
+/** Applies `changes` from the current simulation time, so pausing or changing speed does not jump. */
+export const anchorClock = (clock: ClockSettings, changes: Partial<ClockSettings>, now = Date.now()): ClockSettings => ({
+  ...clock,
+  simulationTime: clockTime(clock, now),
+  clockAnchor: now,
+  ...changes
+});
+
+export const liveClock = (now = Date.now()): ClockSettings => ({
+  simulationTime: null,
+  clockAnchor: now,
+  timeSpeed: 1,
+  isPaused: false
+});
+
+// Milliseconds between propagation steps, or null while paused
+export const updateInterval = (clock: ClockSettings): number | null => {
+  if (isLive(clock)) return LIVE_UPDATE_MS;
+  if (clock.isPaused) return null;
+  return Math.abs(clock.timeSpeed) > 1 ? WARP_UPDATE_MS : LIVE_UPDATE_MS;
+};
+
+export const formatTimeSpeed = (speed: number): string => {
+  if (speed === 1) return 'Real time';
+  const magnitude = Math.abs(speed);
+  const label = magnitude >= 3600 ? `${magnitude / 3600} h/s` : magnitude >= 60 ? `${magnitude / 60} min/s` : `${magnitude}×`;
+  return speed < 0 ? `Reverse ${label}` : label;
+};
+
+// UTC, as Space-Track and the element sets use it
+export const formatClockTime = (time: number): string =>
+  `${new Date(time).toISOString().substring(0, 19).replace('T', ' ')} UTC`;
@@ -1,7 +1,19 @@
-import { Satellite } from '../types/satellite.types';
-import * as satellite from 'satellite.js';
+import { Conjunction, ElementSetHistoryPoint, ReentryPrediction, Satellite } from '../types/satellite.types';
+import { deriveOrbitGeometry, formatTLE, ParsedTLE } from './tle';
+import { between, daysFromNow, greaterThan, isNull, spaceTrackQuery } from './spaceTrackQuery';
+import { fromDecayMessage, fromTIPMessage, latestPredictions, SpaceTrackDecayData, SpaceTrackTIPData } from './reentry';
+import { propagateSatellite } from './tleValidation';
+import { classifySatellite } from './classification';
+import { fromGPHistoryRecord, GP_HISTORY_COLUMNS, SpaceTrackGPHistoryData } from './elementHistory';
+import { fromSpaceTrackCDM, sortConjunctions, SpaceTrackCDMData } from './conjunctions';
+import { fromSpaceTrackSatcat, normalizeObjectType, normalizeRCSSize, SatcatRecord, SpaceTrackSatcatData } from './satcat';
+import { clockTime } from './simulationClock';
+import { useSatelliteStore } from '../stores/satelliteStore';
 
-interface SpaceTrackGPData {
+// Converted objects are placed at the simulation clock's time, the same time the propagation workers use
+const simulationDate = () => new Date(clockTime(useSatelliteStore.getState().globeSettings));
+
+export interface SpaceTrackGPData {
   NORAD_CAT_ID: number;
   OBJECT_NAME: string;
   OBJECT_TYPE: string;
@@ -18,10 +30,53 @@ interface SpaceTrackGPData {
   COUNTRY_CODE: string;
   LAUNCH_DATE: string;
   CONSTELLATION?: string;
+  CREATION_DATE?: string;
+  // Mean elements, present in full GP/OMM records
+  OBJECT_ID?: string;
+  CLASSIFICATION_TYPE?: string;
+  RA_OF_ASC_NODE?: number | string;
+  ARG_OF_PERICENTER?: number | string;
+  MEAN_ANOMALY?: number | string;
+  BSTAR?: number | string;
+  MEAN_MOTION_DOT?: number | string;
+  MEAN_MOTION_DDOT?: number | string;
+  ELEMENT_SET_NO?: number | string;
+  REV_AT_EPOCH?: number | string;
+  // SATCAT fields carried on GP records
+  RCS_SIZE?: string | null;
+  SITE?: string | null;
+  DECAY_DATE?: string | null;
+}
+
+export interface SpaceTrackCredentials {
+  identity: string;
+  password: string;
+}
+
+// A proxy session for the user's own account; the password stays with the proxy
+interface SpaceTrackSession {
+  identity: string;
+  sessionToken: string;
 }
 
+// Kept for the browser session only
+const SESSION_STORAGE_KEY = 'space-track-session';
+// Earlier versions stored the password itself under this key
+const LEGACY_CREDENTIALS_STORAGE_KEY = 'space-track-credentials';
+
+const loadStoredSession = (): SpaceTrackSession | null => {
+  try {
+    sessionStorage.removeItem(LEGACY_CREDENTIALS_STORAGE_KEY);
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
 export class SpaceTrackAPI {
   private proxyUrl = '/api/space-track-proxy';
+  private session: SpaceTrackSession | null = loadStoredSession();
   private lastRequest = 0;
   private requestQueue: Promise<any> = Promise.resolve();
   private readonly RATE_LIMIT_DELAY = 2000;
@@ -45,10 +100,53 @@ export class SpaceTrackAPI {
     });
   }
 
+  private setSession(session: SpaceTrackSession | null): void {
+    this.session = session;
+    try {
+      if (session) {
+        sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+      } else {
+        sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Could not persist the Space-Track session:', error);
+    }
+  }
+
+  /** Starts a proxy session for the user's own account; the password is sent only here. */
+  async signIn(credentials: SpaceTrackCredentials): Promise<void> {
+    const response = await fetch(this.proxyUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({ action: 'login', credentials })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.sessionToken) {
+      throw new Error(data.error || `Sign-in failed: ${response.status}`);
+    }
+    this.setSession({ identity: data.identity, sessionToken: data.sessionToken });
+  }
+
+  // Goes back to the deployment's own account
+  signOut(): void {
+    const sessionToken = this.session?.sessionToken;
+    this.setSession(null);
+    if (!sessionToken) return;
+    fetch(this.proxyUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'logout', sessionToken })
+    }).catch(error => console.warn('Could not end the Space-Track session:', error));
+  }
+
+  getIdentity(): string | null {
+    return this.session?.identity ?? null;
+  }
+
   private async makeProxyRequest(endpoint: string): Promise<any> {
     return this.queueRequest(async () => {
       console.log('Making proxy request to:', this.proxyUrl);
-      console.log('Request payload:', { action: 'fetch', endpoint });
+      console.log('Request payload:', { action: 'fetch', endpoint, identity: this.getIdentity() });
       
       try {
         const response = await fetch(this.proxyUrl, {
@@ -57,12 +155,27 @@ export class SpaceTrackAPI {
             'Content-Type': 'application/json',
             'Accept': 'application/json'
           },
-          body: JSON.stringify({ action: 'fetch', endpoint })
+          body: JSON.stringify({
+            action: 'fetch',
+            endpoint,
+            ...(this.session && { sessionToken: this.session.sessionToken })
+          })
         });
 
         console.log('Response status:', response.status);
         console.log('Response headers:', response.headers);
 
+        if (response.status === 429) {
+          const retryAfter = response.headers.get('Retry-After');
+          throw new Error(`Space-Track request budget exceeded. Try again in ${retryAfter || 'a few'} seconds.`);
+        }
+
+        // The proxy no longer knows the session (it expired or the instance restarted)
+        if (response.status === 401 && this.session) {
+          this.setSession(null);
+          throw new Error('Your Space-Track session has ended. Sign in again or use the deployment account.');
+        }
+
         if (!response.ok) {
           const errorText = await response.text();
           console.error('Proxy request failed:', response.status, errorText);
@@ -90,196 +203,279 @@ export class SpaceTrackAPI {
   async getAllActiveSatellites(): Promise<Satellite[]> {
     try {
       // Get all active satellites regardless of orbit type - much more comprehensive
-      const endpoint = `/basicspacedata/query/class/gp/decay_date/null-val/epoch/>now-30/orderby/NORAD_CAT_ID asc/format/json`;
+      const endpoint = spaceTrackQuery('gp')
+        .where('DECAY_DATE', isNull())
+        .where('EPOCH', greaterThan(daysFromNow(-30)))
+        .orderBy('NORAD_CAT_ID')
+        .build();
       const data: SpaceTrackGPData[] = await this.makeProxyRequest(endpoint);
       
       if (!data || !Array.isArray(data) || data.length === 0) {
         throw new Error('No satellite data received');
       }
 
-      return data.map(sat => {
-        const convertedSat = this.convertToSatellite(sat);
-        try {
-          // Add more defensive programming here
-          if (convertedSat.tle?.line1 && convertedSat.tle?.line2) {
-            const position = this.calculatePosition(convertedSat.tle.line1, convertedSat.tle.line2);
-            return { 
-              ...convertedSat, 
-              position: { 
-                ...position, 
-                timestamp: Date.now() 
-              } 
-            };
-          } else {
-            console.warn(`Invalid TLE data for satellite ${convertedSat.id}`);
-            return convertedSat;
-          }
-        } catch (error) {
-          console.warn(`Error calculating position for satellite ${convertedSat.id}:`, error);
-          return convertedSat;
-        }
-      }).filter(sat => sat !== null); // Remove any null satellites
+      return this.convertCatalog(data);
     } catch (error) {
       console.error('Error fetching satellites:', error);
       throw error;
     }
   }
 
+  // Element sets published after `since` (a Space-Track CREATION_DATE); may legitimately be empty
+  async getSatellitesUpdatedSince(since: string): Promise<Satellite[]> {
+    try {
+      const endpoint = spaceTrackQuery('gp')
+        .where('DECAY_DATE', isNull())
+        .where('CREATION_DATE', greaterThan(since))
+        .orderBy('NORAD_CAT_ID')
+        .build();
+      const data: SpaceTrackGPData[] = await this.makeProxyRequest(endpoint);
+      
+      if (!Array.isArray(data)) {
+        throw new Error('Unexpected response for satellite updates');
+      }
+
+      return this.convertCatalog(data);
+    } catch (error) {
+      console.error('Error fetching satellite updates:', error);
+      throw error;
+    }
+  }
+
   async getLEOSatellites(limit: number = 200): Promise<Satellite[]> {
     try {
-      const endpoint = `/basicspacedata/query/class/gp/decay_date/null-val/epoch/>now-30/MEAN_MOTION/>11/orderby/NORAD_CAT_ID asc/limit/${limit}/format/json`;
+      // More than 11 revolutions per day puts the orbit below roughly 2,000 km
+      const endpoint = spaceTrackQuery('gp')
+        .where('DECAY_DATE', isNull())
+        .where('EPOCH', greaterThan(daysFromNow(-30)))
+        .where('MEAN_MOTION', greaterThan(11))
+        .orderBy('NORAD_CAT_ID')
+        .limit(limit)
+        .build();
       const data: SpaceTrackGPData[] = await this.makeProxyRequest(endpoint);
       
       if (!data || !Array.isArray(data) || data.length === 0) {
         throw new Error('No satellite data received');
       }
 
-      return data.map(sat => this.convertToSatellite(sat)).map(sat => {
-        try {
-          const position = this.calculatePosition(sat.tle.line1, sat.tle.line2);
-          return { ...sat, position: { ...position, timestamp: Date.now() } };
-        } catch (error) {
-          return sat;
-        }
-      });
+      const now = simulationDate();
+      return data.map(sat => propagateSatellite(this.convertToSatellite(sat), now));
     } catch (error) {
       console.error('Error fetching satellites:', error);
       throw error;
     }
   }
 
-  private convertToSatellite(sat: SpaceTrackGPData): Satellite {
-    return {
+  // SATCAT entries for objects in orbit plus those that decayed within the GP query window
+  async getSatcat(): Promise<SatcatRecord[]> {
+    try {
+      const columns = ['NORAD_CAT_ID', 'INTLDES', 'OBJECT_TYPE', 'COUNTRY', 'LAUNCH', 'SITE', 'DECAY', 'RCS_SIZE'] as const;
+      const inOrbit = spaceTrackQuery('satcat')
+        .where('CURRENT', 'Y')
+        .where('DECAY', isNull())
+        .select(...columns)
+        .build();
+      const recentlyDecayed = spaceTrackQuery('satcat')
+        .where('CURRENT', 'Y')
+        .where('DECAY', greaterThan(daysFromNow(-30)))
+        .select(...columns)
+        .build();
+
+      const data: SpaceTrackSatcatData[] = [
+        ...await this.makeProxyRequest(inOrbit),
+        ...await this.makeProxyRequest(recentlyDecayed)
+      ];
+      return data.map(fromSpaceTrackSatcat);
+    } catch (error) {
+      console.error('Error fetching SATCAT:', error);
+      throw error;
+    }
+  }
+
+  // Decay predictions and TIP messages issued in the last month for reentries from yesterday onwards
+  async getReentryPredictions(): Promise<ReentryPrediction[]> {
+    try {
+      const decayEndpoint = spaceTrackQuery('decay')
+        .where('MSG_TYPE', 'Prediction')
+        .where('DECAY_EPOCH', greaterThan(daysFromNow(-1)))
+        .where('MSG_EPOCH', greaterThan(daysFromNow(-30)))
+        .orderBy('DECAY_EPOCH')
+        .build();
+      const tipEndpoint = spaceTrackQuery('tip')
+        .where('DECAY_EPOCH', greaterThan(daysFromNow(-1)))
+        .where('MSG_EPOCH', greaterThan(daysFromNow(-30)))
+        .orderBy('DECAY_EPOCH')
+        .build();
+
+      const decay: SpaceTrackDecayData[] = await this.makeProxyRequest(decayEndpoint);
+      const tip: SpaceTrackTIPData[] = await this.makeProxyRequest(tipEndpoint);
+      return latestPredictions([
+        ...(Array.isArray(decay) ? decay.map(fromDecayMessage) : []),
+        ...(Array.isArray(tip) ? tip.map(fromTIPMessage) : [])
+      ]);
+    } catch (error) {
+      console.error('Error fetching reentry predictions:', error);
+      throw error;
+    }
+  }
+
+  // Public conjunction data messages for close approaches that have not happened yet
+  async getConjunctions(): Promise<Conjunction[]> {
+    try {
+      const endpoint = spaceTrackQuery('cdm_public')
+        .where('TCA', greaterThan(daysFromNow(0)))
+        .orderBy('TCA')
+        .limit(1000)
+        .build();
+
+      const data: SpaceTrackCDMData[] = await this.makeProxyRequest(endpoint);
+      return Array.isArray(data) ? sortConjunctions(data.map(fromSpaceTrackCDM)) : [];
+    } catch (error) {
+      console.error('Error fetching conjunctions:', error);
+      throw error;
+    }
+  }
+
+  // Every element set published for one object with an epoch in [from, to]
+  async getElementSetHistory(noradId: string, from: Date, to: Date): Promise<ElementSetHistoryPoint[]> {
+    try {
+      const endpoint = spaceTrackQuery('gp_history')
+        .where('NORAD_CAT_ID', noradId)
+        .where('EPOCH', between(from, to))
+        .select(...GP_HISTORY_COLUMNS)
+        .orderBy('EPOCH')
+        .build();
+
+      const data: SpaceTrackGPHistoryData[] = await this.makeProxyRequest(endpoint);
+      if (!Array.isArray(data)) {
+        throw new Error('Unexpected response for element set history');
+      }
+      return data.map(fromGPHistoryRecord).filter((point): point is ElementSetHistoryPoint => point !== null);
+    } catch (error) {
+      console.error(`Error fetching element set history for ${noradId}:`, error);
+      throw error;
+    }
+  }
+
+  // Shared by every data source: normalizes GP records, computes current positions and flags bad element sets
+  convertCatalog(data: SpaceTrackGPData[]): Satellite[] {
+    const now = simulationDate();
+    return data.map(sat => propagateSatellite(this.convertToSatellite(this.normalizeGPRecord(sat)), now));
+  }
+
+  // Imported TLE/3LE sets go through the same GP record path as catalog data
+  convertElementSets(elementSets: ParsedTLE[]): Satellite[] {
+    return this.convertCatalog(elementSets.map(set => ({
+      NORAD_CAT_ID: set.noradId,
+      OBJECT_NAME: set.name || `NORAD ${set.noradId}`,
+      OBJECT_ID: set.internationalDesignator,
+      OBJECT_TYPE: '',
+      CLASSIFICATION_TYPE: set.classification,
+      EPOCH: set.epoch,
+      MEAN_MOTION: set.meanMotion,
+      ECCENTRICITY: set.eccentricity,
+      INCLINATION: set.inclination,
+      RA_OF_ASC_NODE: set.raan,
+      ARG_OF_PERICENTER: set.argOfPericenter,
+      MEAN_ANOMALY: set.meanAnomaly,
+      BSTAR: set.bstar,
+      MEAN_MOTION_DOT: set.meanMotionDot,
+      MEAN_MOTION_DDOT: set.meanMotionDdot,
+      ELEMENT_SET_NO: set.elementSetNo,
+      REV_AT_EPOCH: set.revAtEpoch,
+      SEMIMAJOR_AXIS: '',
+      PERIOD: '',
+      APOAPSIS: '',
+      PERIAPSIS: '',
+      TLE_LINE1: set.line1,
+      TLE_LINE2: set.line2,
+      COUNTRY_CODE: '',
+      LAUNCH_DATE: ''
+    })));
+  }
+
+  // Fills in TLE lines and derived geometry for GP records that only carry mean elements (e.g. CelesTrak)
+  normalizeGPRecord(sat: SpaceTrackGPData): SpaceTrackGPData {
+    const noradId = Number(sat.NORAD_CAT_ID);
+    const meanMotion = this.safeParseFloat(sat.MEAN_MOTION);
+    const eccentricity = this.safeParseFloat(sat.ECCENTRICITY);
+    const normalized = { ...sat, NORAD_CAT_ID: noradId };
+
+    if (meanMotion > 0 && !sat.SEMIMAJOR_AXIS) {
+      const geometry = deriveOrbitGeometry(meanMotion, eccentricity || 0);
+      normalized.SEMIMAJOR_AXIS = geometry.semiMajorAxis;
+      normalized.PERIOD = sat.PERIOD || geometry.period;
+      normalized.APOAPSIS = sat.APOAPSIS || geometry.apoapsis;
+      normalized.PERIAPSIS = sat.PERIAPSIS || geometry.periapsis;
+    }
+
+    if ((!sat.TLE_LINE1 || !sat.TLE_LINE2) && meanMotion > 0 && sat.EPOCH && sat.RA_OF_ASC_NODE !== undefined) {
+      const { line1, line2 } = formatTLE({
+        noradId,
+        classification: sat.CLASSIFICATION_TYPE,
+        internationalDesignator: sat.OBJECT_ID,
+        epoch: sat.EPOCH,
+        meanMotion,
+        eccentricity: eccentricity || 0,
+        inclination: this.safeParseFloat(sat.INCLINATION) || 0,
+        raan: this.safeParseFloat(sat.RA_OF_ASC_NODE) || 0,
+        argOfPericenter: this.safeParseFloat(sat.ARG_OF_PERICENTER) || 0,
+        meanAnomaly: this.safeParseFloat(sat.MEAN_ANOMALY) || 0,
+        bstar: this.safeParseFloat(sat.BSTAR) || 0,
+        meanMotionDot: this.safeParseFloat(sat.MEAN_MOTION_DOT) || 0,
+        meanMotionDdot: this.safeParseFloat(sat.MEAN_MOTION_DDOT) || 0,
+        elementSetNo: this.safeParseFloat(sat.ELEMENT_SET_NO) || undefined,
+        revAtEpoch: this.safeParseFloat(sat.REV_AT_EPOCH) || undefined
+      });
+      normalized.TLE_LINE1 = line1;
+      normalized.TLE_LINE2 = line2;
+    }
+
+    return normalized;
+  }
+
+  convertToSatellite(sat: SpaceTrackGPData): Satellite {
+    // Type, constellation and purpose come from the classification rules; the feed's constellation is kept where none matches
+    return classifySatellite({
       id: sat.NORAD_CAT_ID.toString(),
       name: sat.OBJECT_NAME || `NORAD ${sat.NORAD_CAT_ID}`,
-      type: this.determineSatelliteType(sat.OBJECT_NAME, sat.OBJECT_TYPE),
-      status: 'active',
+      type: 'unknown',
+      // Derived by propagateSatellite()
+      status: 'unknown',
+      // Filled in by propagateSatellite(); NaN until the element set has propagated
       position: {
-        latitude: 0,
-        longitude: 0,
-        altitude: this.safeParseFloat(sat.SEMIMAJOR_AXIS) ? (this.safeParseFloat(sat.SEMIMAJOR_AXIS) - 6371) : 400,
+        latitude: NaN,
+        longitude: NaN,
+        altitude: NaN,
         timestamp: Date.now()
       },
-      velocity: 7.8,
-      heading: 0,
+      // velocity, groundSpeed, heading and footprint are filled in by propagateSatellite()
       orbital: {
         period: this.safeParseFloat(sat.PERIOD) || 90,
         inclination: this.safeParseFloat(sat.INCLINATION) || 0,
         eccentricity: this.safeParseFloat(sat.ECCENTRICITY) || 0,
         perigee: this.safeParseFloat(sat.PERIAPSIS) || 400,
         apogee: this.safeParseFloat(sat.APOAPSIS) || 450,
-        epoch: sat.EPOCH || new Date().toISOString()
+        epoch: sat.EPOCH || new Date().toISOString(),
+        creationDate: sat.CREATION_DATE
       },
       metadata: {
-        constellation: sat.CONSTELLATION || this.extractConstellation(sat.OBJECT_NAME),
         country: sat.COUNTRY_CODE || 'Unknown',
-        launchDate: sat.LAUNCH_DATE || new Date().toISOString(),
-        purpose: this.determinePurpose(sat.OBJECT_NAME, sat.OBJECT_TYPE)
+        constellation: sat.CONSTELLATION || undefined,
+        launchDate: sat.LAUNCH_DATE || undefined,
+        intlDesignator: sat.OBJECT_ID || undefined,
+        objectType: normalizeObjectType(sat.OBJECT_TYPE),
+        owner: sat.COUNTRY_CODE || undefined,
+        launchSite: sat.SITE || undefined,
+        decayDate: sat.DECAY_DATE || undefined,
+        rcsSize: normalizeRCSSize(sat.RCS_SIZE)
       },
       tle: {
-        line1: sat.TLE_LINE1 || `1 ${sat.NORAD_CAT_ID}`,
-        line2: sat.TLE_LINE2 || `2 ${sat.NORAD_CAT_ID}`
-      }
-    };
-  }
-
-  calculatePosition(tle1: string, tle2: string) {
-    try {
-      if (!tle1 || !tle2) {
-        return { latitude: 0, longitude: 0, altitude: 400 };
-      }
-      
-      const satrec = satellite.twoline2satrec(tle1, tle2);
-      if (!satrec) {
-        return { latitude: 0, longitude: 0, altitude: 400 };
-      }
-      
-      const now = new Date();
-      const positionAndVelocity = satellite.propagate(satrec, now);
-      
-      // First check if positionAndVelocity is null or undefined
-      if (!positionAndVelocity) {
-        return { latitude: 0, longitude: 0, altitude: 400 };
-      }
-      
-      // More robust checking for positionAndVelocity
-      if (typeof positionAndVelocity !== 'object') {
-        return { latitude: 0, longitude: 0, altitude: 400 };
-      }
-      
-      // Check if position exists and is valid
-      if (positionAndVelocity.position && 
-          typeof positionAndVelocity.position === 'object' && 
-          positionAndVelocity.position !== null &&
-          'x' in positionAndVelocity.position &&
-          'y' in positionAndVelocity.position &&
-          'z' in positionAndVelocity.position) {
-        
-        const positionEci = positionAndVelocity.position;
-        const gmst = satellite.gstime(now);
-        const positionGd = satellite.eciToGeodetic(positionEci, gmst);
-        
-        const longitude = satellite.degreesLong(positionGd.longitude);
-        const latitude = satellite.degreesLat(positionGd.latitude);
-        const altitude = positionGd.height;
-        
-        return {
-          latitude: isNaN(latitude) ? 0 : latitude,
-          longitude: isNaN(longitude) ? 0 : longitude,
-          altitude: isNaN(altitude) ? 400 : altitude
-        };
-      }
-      
-      return { latitude: 0, longitude: 0, altitude: 400 };
-    } catch (error) {
-      console.warn('Error calculating satellite position:', error);
-      return { latitude: 0, longitude: 0, altitude: 400 };
-    }
-  }
-
-  private determineSatelliteType(name: string, objectType: string) {
-    const lowerName = name.toLowerCase();
-    const lowerType = objectType.toLowerCase();
-    
-    if (lowerName.includes('iss') || lowerName.includes('station')) return 'space-station';
-    if (lowerName.includes('starlink') || lowerName.includes('oneweb') || lowerName.includes('kuiper')) return 'constellation';
-    if (lowerName.includes('gps') || lowerName.includes('galileo') || lowerName.includes('glonass') || lowerName.includes('beidou')) return 'navigation';
-    if (lowerName.includes('weather') || lowerName.includes('meteo') || lowerName.includes('goes') || lowerName.includes('noaa')) return 'weather';
-    if (lowerName.includes('telescope') || lowerName.includes('hubble') || lowerName.includes('kepler') || lowerName.includes('tess')) return 'scientific';
-    if (lowerName.includes('landsat') || lowerName.includes('worldview') || lowerName.includes('sentinel') || lowerName.includes('spot')) return 'earth-observation';
-    if (lowerType.includes('rocket') || lowerName.includes('r/b') || lowerName.includes('rocket body')) return 'rocket-body';
-    if (lowerName.includes('military') || lowerName.includes('defense') || lowerName.includes('classified')) return 'military';
-    
-    return 'communication';
-  }
-
-  private extractConstellation(name: string): string {
-    const lowerName = name.toLowerCase();
-    
-    if (lowerName.includes('starlink')) return 'Starlink';
-    if (lowerName.includes('oneweb')) return 'OneWeb';
-    if (lowerName.includes('kuiper')) return 'Project Kuiper';
-    if (lowerName.includes('gps')) return 'GPS';
-    if (lowerName.includes('galileo')) return 'Galileo';
-    if (lowerName.includes('glonass')) return 'GLONASS';
-    if (lowerName.includes('beidou')) return 'BeiDou';
-    if (lowerName.includes('iridium')) return 'Iridium';
-    if (lowerName.includes('globalstar')) return 'Globalstar';
-    if (lowerName.includes('orbcomm')) return 'ORBCOMM';
-    
-    return 'Other';
-  }
-
-  private determinePurpose(name: string, objectType: string): string {
-    const lowerName = name.toLowerCase();
-    
-    if (lowerName.includes('iss')) return 'Space Station';
-    if (lowerName.includes('starlink')) return 'Internet Constellation';
-    if (lowerName.includes('gps')) return 'Navigation';
-    if (lowerName.includes('weather')) return 'Weather Monitoring';
-    if (lowerName.includes('telescope')) return 'Space Telescope';
-    
-    return 'Satellite Operations';
+        line1: sat.TLE_LINE1 || '',
+        line2: sat.TLE_LINE2 || ''
+      },
+      quality: { level: 'invalid', reasons: ['Not propagated yet'] }
+    });
   }
 
   private safeParseFloat(value: number | string | undefined): number {
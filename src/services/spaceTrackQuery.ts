@@ -0,0 +1,125 @@
+// Typed builder for Space-Track REST API query URLs
+// (https://www.space-track.org/documentation#/api). Produces the path the proxy forwards, e.g.
+// /basicspacedata/query/class/gp/DECAY_DATE/null-val/EPOCH/>now-30/orderby/NORAD_CAT_ID asc/format/json
+import { SpaceTrackGPData } from './spaceTrackAPI';
+
+// Must stay in sync with the allowlist in api/space-track-proxy.js
+export type SpaceTrackClass = 'gp' | 'satcat' | 'decay' | 'tip' | 'gp_history' | 'cdm_public';
+export type SpaceTrackFormat = 'json' | 'xml' | 'kvn' | 'csv' | 'tle' | '3le' | 'html';
+export type SortDirection = 'asc' | 'desc';
+
+type GPField = keyof SpaceTrackGPData | 'GP_ID' | 'DECAY_DATE' | 'RCS_SIZE' | 'SITE' | 'FILE' | 'EPHEMERIS_TYPE';
+
+export interface SpaceTrackFields {
+  gp: GPField;
+  gp_history: GPField;
+  satcat:
+    | 'INTLDES' | 'NORAD_CAT_ID' | 'OBJECT_TYPE' | 'SATNAME' | 'COUNTRY' | 'LAUNCH' | 'SITE' | 'DECAY'
+    | 'PERIOD' | 'INCLINATION' | 'APOGEE' | 'PERIGEE' | 'COMMENT' | 'COMMENTCODE' | 'RCSVALUE' | 'RCS_SIZE'
+    | 'FILE' | 'LAUNCH_YEAR' | 'LAUNCH_NUM' | 'LAUNCH_PIECE' | 'CURRENT' | 'OBJECT_NAME' | 'OBJECT_ID'
+    | 'OBJECT_NUMBER';
+  decay:
+    | 'NORAD_CAT_ID' | 'OBJECT_NUMBER' | 'OBJECT_NAME' | 'INTLDES' | 'OBJECT_ID' | 'RCS' | 'RCS_SIZE'
+    | 'COUNTRY' | 'MSG_EPOCH' | 'DECAY_EPOCH' | 'SOURCE' | 'MSG_TYPE' | 'PRECEDENCE';
+  tip:
+    | 'NORAD_CAT_ID' | 'MSG_EPOCH' | 'INSERT_EPOCH' | 'DECAY_EPOCH' | 'WINDOW' | 'REV' | 'DIRECTION'
+    | 'LAT' | 'LON' | 'INCL' | 'NEXT_REPORT' | 'ID' | 'HIGH_INTEREST' | 'OBJECT_NUMBER';
+  cdm_public:
+    | 'CDM_ID' | 'CREATED' | 'EMERGENCY_REPORTABLE' | 'TCA' | 'MIN_RNG' | 'PC'
+    | 'SAT_1_ID' | 'SAT_1_NAME' | 'SAT1_OBJECT_TYPE' | 'SAT1_RCS' | 'SAT_1_EXCL_VOL'
+    | 'SAT_2_ID' | 'SAT_2_NAME' | 'SAT2_OBJECT_TYPE' | 'SAT2_RCS' | 'SAT_2_EXCL_VOL';
+}
+
+export type SpaceTrackValue = string | number | Date;
+
+export interface SpaceTrackPredicate {
+  readonly expression: string;
+}
+
+// Space-Track compares datetimes as YYYY-MM-DDTHH:MM:SS (UTC, no zone suffix)
+const formatValue = (value: SpaceTrackValue): string => {
+  const text = value instanceof Date ? value.toISOString().substring(0, 19) : String(value);
+  if (text === '' || /[/?#\\]/.test(text)) {
+    throw new Error(`Invalid Space-Track query value: "${text}"`);
+  }
+  return text;
+};
+
+const predicate = (expression: string): SpaceTrackPredicate => ({ expression });
+
+/** Relative date understood by Space-Track, e.g. `daysFromNow(-30)` → `now-30`. Fractions are allowed. */
+export const daysFromNow = (days: number): string =>
+  days === 0 ? 'now' : `now${days > 0 ? '+' : ''}${days}`;
+
+export const equals = (value: SpaceTrackValue) => predicate(formatValue(value));
+export const notEquals = (value: SpaceTrackValue) => predicate(`<>${formatValue(value)}`);
+export const greaterThan = (value: SpaceTrackValue) => predicate(`>${formatValue(value)}`);
+export const lessThan = (value: SpaceTrackValue) => predicate(`<${formatValue(value)}`);
+export const between = (from: SpaceTrackValue, to: SpaceTrackValue) =>
+  predicate(`${formatValue(from)}--${formatValue(to)}`);
+export const oneOf = (values: SpaceTrackValue[]) => {
+  if (values.length === 0) throw new Error('oneOf() needs at least one value');
+  return predicate(values.map(formatValue).join(','));
+};
+export const like = (value: string) => predicate(`~~${formatValue(value)}`);
+export const startsWith = (value: string) => predicate(`^${formatValue(value)}`);
+export const isNull = () => predicate('null-val');
+export const isNotNull = () => predicate('<>null-val');
+
+export class SpaceTrackQuery<C extends SpaceTrackClass> {
+  private readonly predicates: string[] = [];
+  private readonly ordering: string[] = [];
+  private readonly columns: string[] = [];
+  private limitClause: string | null = null;
+  private outputFormat: SpaceTrackFormat = 'json';
+
+  constructor(private readonly queryClass: C) {}
+
+  /** Plain values match exactly; use the predicate helpers for comparisons, ranges and nulls. */
+  where(field: SpaceTrackFields[C], condition: SpaceTrackPredicate | SpaceTrackValue): this {
+    const expression = typeof condition === 'object' && 'expression' in condition
+      ? condition.expression
+      : formatValue(condition);
+    this.predicates.push(`${field}/${expression}`);
+    return this;
+  }
+
+  orderBy(field: SpaceTrackFields[C], direction: SortDirection = 'asc'): this {
+    this.ordering.push(`${field} ${direction}`);
+    return this;
+  }
+
+  limit(count: number, offset?: number): this {
+    if (!Number.isInteger(count) || count <= 0 || (offset !== undefined && (!Number.isInteger(offset) || offset < 0))) {
+      throw new Error(`Invalid Space-Track limit: ${count}${offset !== undefined ? `, ${offset}` : ''}`);
+    }
+    this.limitClause = offset ? `${count},${offset}` : `${count}`;
+    return this;
+  }
+
+  /** Restricts the returned columns. */
+  select(...fields: SpaceTrackFields[C][]): this {
+    this.columns.push(...fields);
+    return this;
+  }
+
+  format(format: SpaceTrackFormat): this {
+    this.outputFormat = format;
+    return this;
+  }
+
+  build(): string {
+    const segments = ['basicspacedata', 'query', 'class', this.queryClass, ...this.predicates];
+    if (this.columns.length > 0) segments.push('predicates', this.columns.join(','));
+    if (this.ordering.length > 0) segments.push('orderby', this.ordering.join(','));
+    if (this.limitClause) segments.push('limit', this.limitClause);
+    segments.push('format', this.outputFormat);
+    return `/${segments.join('/')}`;
+  }
+
+  toString(): string {
+    return this.build();
+  }
+}
+
+export const spaceTrackQuery = <C extends SpaceTrackClass>(queryClass: C) => new SpaceTrackQuery(queryClass);
@@ -0,0 +1,285 @@
+// Helpers for parsing and building two-line element sets.
+// Providers such as CelesTrak publish GP data without TLE lines, but the rest of
+// the app propagates from TLE text, so we format the lines ourselves.
+
+const EARTH_RADIUS_KM = 6378.135;
+export const EARTH_MU = 398600.4418; // km^3/s^2
+const ALPHA5_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export interface MeanElementSet {
+  noradId: number;
+  classification?: string;
+  internationalDesignator?: string; // COSPAR format, e.g. 1998-067A
+  epoch: string; // ISO 8601, UTC
+  meanMotion: number; // rev/day
+  eccentricity: number;
+  inclination: number; // degrees
+  raan: number; // degrees
+  argOfPericenter: number; // degrees
+  meanAnomaly: number; // degrees
+  bstar: number;
+  meanMotionDot: number;
+  meanMotionDdot: number;
+  elementSetNo?: number;
+  revAtEpoch?: number;
+}
+
+export interface ParsedTLE extends MeanElementSet {
+  name?: string;
+  line1: string;
+  line2: string;
+}
+
+export interface TLEParseError {
+  line: number; // 1-based line number in the source text
+  message: string;
+}
+
+export const tleChecksum = (line: string): number => {
+  let sum = 0;
+  for (const char of line.substring(0, 68)) {
+    if (char >= '0' && char <= '9') sum += Number(char);
+    else if (char === '-') sum += 1;
+  }
+  return sum % 10;
+};
+
+export const encodeCatalogNumber = (noradId: number): string => {
+  if (noradId < 100000) return noradId.toString().padStart(5, '0');
+  // Alpha-5: the leading letter stands for 10-33, skipping I and O
+  const letter = ALPHA5_LETTERS[Math.floor(noradId / 10000) - 10];
+  return `${letter ?? '?'}${(noradId % 10000).toString().padStart(4, '0')}`;
+};
+
+export const decodeCatalogNumber = (field: string): number => {
+  const value = field.trim();
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const letterIndex = ALPHA5_LETTERS.indexOf(value.charAt(0).toUpperCase());
+  if (letterIndex === -1 || !/^\d{4}$/.test(value.substring(1))) return NaN;
+  return (letterIndex + 10) * 10000 + parseInt(value.substring(1), 10);
+};
+
+export const parseEpoch = (epoch: string): Date => {
+  const hasZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(epoch);
+  return new Date(hasZone ? epoch : `${epoch}Z`);
+};
+
+const formatEpoch = (epoch: string): string => {
+  const date = parseEpoch(epoch);
+  const year = date.getUTCFullYear();
+  const dayOfYear = (date.getTime() - Date.UTC(year, 0, 1)) / 86400000 + 1;
+  return `${(year % 100).toString().padStart(2, '0')}${dayOfYear.toFixed(8).padStart(12, '0')}`;
+};
+
+const formatDesignator = (designator?: string): string => {
+  const match = designator?.match(/^(\d{2})(\d{2})-(\d{3})([A-Z]{1,3})$/);
+  if (!match) return ''.padEnd(8);
+  return `${match[2]}${match[3]}${match[4]}`.padEnd(8);
+};
+
+// Formats values like BSTAR as the implied-decimal " 12345-5" notation
+const formatExponential = (value: number): string => {
+  if (!value) return ' 00000-0';
+  let exponent = Math.floor(Math.log10(Math.abs(value))) + 1;
+  let mantissa = Math.round((Math.abs(value) / Math.pow(10, exponent)) * 100000);
+  if (mantissa >= 100000) {
+    mantissa = 10000;
+    exponent += 1;
+  }
+  exponent = Math.max(-9, Math.min(9, exponent));
+  const sign = value < 0 ? '-' : ' ';
+  const exponentSign = exponent < 0 ? '-' : '+';
+  return `${sign}${mantissa.toString().padStart(5, '0')}${exponentSign}${Math.abs(exponent)}`;
+};
+
+const formatMeanMotionDot = (value: number): string => {
+  const sign = value < 0 ? '-' : ' ';
+  return `${sign}${Math.abs(value).toFixed(8).replace(/^0/, '')}`.padStart(10);
+};
+
+const formatAngle = (degrees: number): string => {
+  const normalized = ((degrees % 360) + 360) % 360;
+  return normalized.toFixed(4).padStart(8);
+};
+
+const withChecksum = (line: string): string => `${line}${tleChecksum(line)}`;
+
+export const formatTLE = (elements: MeanElementSet): { line1: string; line2: string } => {
+  const catalog = encodeCatalogNumber(elements.noradId);
+  const classification = (elements.classification || 'U').charAt(0);
+  const elementSetNo = ((elements.elementSetNo ?? 999) % 10000).toString().padStart(4);
+  const revAtEpoch = ((elements.revAtEpoch ?? 0) % 100000).toString().padStart(5);
+  const eccentricity = elements.eccentricity.toFixed(7).substring(2);
+
+  const line1 = [
+    `1 ${catalog}${classification}`,
+    formatDesignator(elements.internationalDesignator),
+    formatEpoch(elements.epoch),
+    formatMeanMotionDot(elements.meanMotionDot),
+    formatExponential(elements.meanMotionDdot),
+    formatExponential(elements.bstar),
+    `0 ${elementSetNo}`
+  ].join(' ');
+
+  const line2 = [
+    `2 ${catalog}`,
+    formatAngle(elements.inclination),
+    formatAngle(elements.raan),
+    eccentricity,
+    formatAngle(elements.argOfPericenter),
+    formatAngle(elements.meanAnomaly),
+    `${elements.meanMotion.toFixed(8).padStart(11)}${revAtEpoch}`
+  ].join(' ');
+
+  return { line1: withChecksum(line1), line2: withChecksum(line2) };
+};
+
+// Derived orbit geometry in the same units Space-Track reports for GP records
+export const deriveOrbitGeometry = (meanMotion: number, eccentricity: number) => {
+  const meanMotionRadPerSec = (meanMotion * 2 * Math.PI) / 86400;
+  const semiMajorAxis = Math.cbrt(EARTH_MU / (meanMotionRadPerSec * meanMotionRadPerSec));
+  return {
+    semiMajorAxis,
+    period: 1440 / meanMotion,
+    apoapsis: semiMajorAxis * (1 + eccentricity) - EARTH_RADIUS_KM,
+    periapsis: semiMajorAxis * (1 - eccentricity) - EARTH_RADIUS_KM
+  };
+};
+
+// Parses the implied-decimal exponent notation, e.g. "-11606-4" => -0.11606e-4
+const parseExponential = (field: string): number => {
+  const match = field.trim().match(/^([+-]?)(\d{1,5})([+-]\d)$/);
+  if (!match) return NaN;
+  const mantissa = parseFloat(`0.${match[2].padStart(5, '0')}`);
+  return (match[1] === '-' ? -1 : 1) * mantissa * Math.pow(10, parseInt(match[3], 10));
+};
+
+const parseNumber = (field: string): number => {
+  const value = field.trim();
+  return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(value) ? parseFloat(value) : NaN;
+};
+
+const parseDesignator = (field: string): string | undefined => {
+  const match = field.trim().match(/^(\d{2})(\d{3})([A-Z]{1,3})$/);
+  if (!match) return undefined;
+  const year = parseInt(match[1], 10);
+  return `${year < 57 ? 2000 + year : 1900 + year}-${match[2]}${match[3]}`;
+};
+
+const epochToISO = (year: number, dayOfYear: number): string => {
+  const fullYear = year < 57 ? 2000 + year : 1900 + year;
+  return new Date(Date.UTC(fullYear, 0, 1) + (dayOfYear - 1) * 86400000).toISOString();
+};
+
+/**
+ * Parses a single element set. Throws with a descriptive message when the
+ * lines are malformed or their checksums do not match.
+ */
+export const parseTLE = (line1: string, line2: string, name?: string): ParsedTLE => {
+  const l1 = line1.trimEnd();
+  const l2 = line2.trimEnd();
+
+  if (l1.length !== 69 || l2.length !== 69) {
+    throw new Error('TLE lines must be exactly 69 characters long');
+  }
+  if (!l1.startsWith('1 ') || !l2.startsWith('2 ')) {
+    throw new Error('TLE lines must start with "1 " and "2 "');
+  }
+  if (tleChecksum(l1) !== Number(l1.charAt(68))) {
+    throw new Error(`Line 1 checksum mismatch (expected ${tleChecksum(l1)}, found ${l1.charAt(68)})`);
+  }
+  if (tleChecksum(l2) !== Number(l2.charAt(68))) {
+    throw new Error(`Line 2 checksum mismatch (expected ${tleChecksum(l2)}, found ${l2.charAt(68)})`);
+  }
+
+  const noradId = decodeCatalogNumber(l1.substring(2, 7));
+  if (isNaN(noradId)) {
+    throw new Error(`Invalid catalog number "${l1.substring(2, 7)}"`);
+  }
+  if (decodeCatalogNumber(l2.substring(2, 7)) !== noradId) {
+    throw new Error('Catalog numbers on line 1 and line 2 do not match');
+  }
+
+  const epochYear = parseInt(l1.substring(18, 20), 10);
+  const epochDay = parseNumber(l1.substring(20, 32));
+  const fields = {
+    meanMotionDot: parseNumber(l1.substring(33, 43)),
+    meanMotionDdot: parseExponential(l1.substring(44, 52)),
+    bstar: parseExponential(l1.substring(53, 61)),
+    inclination: parseNumber(l2.substring(8, 16)),
+    raan: parseNumber(l2.substring(17, 25)),
+    eccentricity: parseNumber(`0.${l2.substring(26, 33).trim()}`),
+    argOfPericenter: parseNumber(l2.substring(34, 42)),
+    meanAnomaly: parseNumber(l2.substring(43, 51)),
+    meanMotion: parseNumber(l2.substring(52, 63))
+  };
+
+  if (isNaN(epochYear) || isNaN(epochDay) || epochDay < 1 || epochDay >= 367) {
+    throw new Error(`Invalid epoch "${l1.substring(18, 32)}"`);
+  }
+  const invalidField = Object.entries(fields).find(([, value]) => isNaN(value));
+  if (invalidField) {
+    throw new Error(`Invalid ${invalidField[0]} field`);
+  }
+
+  return {
+    name: name?.replace(/^0 /, '').trim() || undefined,
+    line1: l1,
+    line2: l2,
+    noradId,
+    classification: l1.charAt(7),
+    internationalDesignator: parseDesignator(l1.substring(9, 17)),
+    epoch: epochToISO(epochYear, epochDay),
+    ...fields,
+    elementSetNo: parseInt(l1.substring(64, 68), 10) || undefined,
+    revAtEpoch: parseInt(l2.substring(63, 68), 10) || undefined
+  };
+};
+
+/**
+ * Parses pasted or uploaded two-line (2LE) and three-line (3LE) element set text.
+ * Malformed sets are reported in `errors` and skipped.
+ */
+export const parseTLEText = (text: string): { elementSets: ParsedTLE[]; errors: TLEParseError[] } => {
+  const lines = text.split(/\r?\n/);
+  const elementSets: ParsedTLE[] = [];
+  const errors: TLEParseError[] = [];
+  let pendingName: string | undefined;
+  let pendingLine = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (!line.trim()) continue;
+
+    if (line.startsWith('1 ')) {
+      const next = lines[i + 1]?.trimEnd() ?? '';
+      if (!next.startsWith('2 ')) {
+        errors.push({ line: i + 1, message: 'Line 1 is not followed by a line 2' });
+        pendingName = undefined;
+        continue;
+      }
+      try {
+        elementSets.push(parseTLE(line, next, pendingName));
+      } catch (error) {
+        errors.push({ line: i + 1, message: error.message });
+      }
+      pendingName = undefined;
+      i++;
+    } else if (line.startsWith('2 ')) {
+      errors.push({ line: i + 1, message: 'Line 2 without a preceding line 1' });
+      pendingName = undefined;
+    } else {
+      if (pendingName !== undefined) {
+        errors.push({ line: pendingLine, message: `Title line "${pendingName}" has no element set` });
+      }
+      pendingName = line.trim();
+      pendingLine = i + 1;
+    }
+  }
+
+  if (pendingName !== undefined) {
+    errors.push({ line: pendingLine, message: `Title line "${pendingName}" has no element set` });
+  }
+
+  return { elementSets, errors };
+};
@@ -0,0 +1,153 @@
+// Element set validation and quality flags. Objects whose element sets are malformed
+// or fail to propagate are flagged invalid and left off the globe, rather than being
+// drawn at a made-up location.
+import * as satellite from 'satellite.js';
+import { DataQuality, LookAngles, Satellite, UserLocation } from '../types/satellite.types';
+import { parseEpoch, parseTLE, ParsedTLE } from './tle';
+import { deriveStatus } from './satelliteStatus';
+import { getSatrec, sgp4Error } from './satrecCache';
+import { DEFAULT_FOOTPRINT_MIN_ELEVATION, footprintRadius, SatelliteMotion, satelliteMotion } from './satelliteMotion';
+import { lookAngles, observerGeodetic } from './lookAngles';
+import { isSunlit, sunPosition } from './visibility';
+
+// The catalog query only asks for element sets from the last 30 days
+export const STALE_EPOCH_DAYS = 30;
+// Element sets are predictions from their epoch; one far ahead of the propagation time is suspect too
+const FUTURE_EPOCH_DAYS = 2;
+
+export interface GeodeticPosition {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+export type PropagationResult =
+  | { position: GeodeticPosition; motion: SatelliteMotion; sunlit: boolean; lookAngles?: LookAngles }
+  | { error: string };
+
+const SGP4_DECAYED = sgp4Error(satellite.SatRecError.Decayed);
+
+/** Checks line length, line numbers, checksums and field formats. */
+export const validateTLE = (
+  line1: string | undefined,
+  line2: string | undefined
+): { elementSet?: ParsedTLE; errors: string[] } => {
+  if (!line1?.trim() || !line2?.trim()) return { errors: ['No element set lines'] };
+  try {
+    return { elementSet: parseTLE(line1, line2), errors: [] };
+  } catch (error) {
+    return { errors: [error.message] };
+  }
+};
+
+/**
+ * Propagates an already initialized satrec; reuse one satrec per element set across times.
+ * Look angles are included when an observer is given.
+ */
+export const propagateSatrec = (
+  satrec: satellite.SatRec,
+  date: Date,
+  observer: satellite.GeodeticLocation | null = null
+): PropagationResult => {
+  try {
+    const result = satellite.propagate(satrec, date);
+    if (satrec.error) return { error: sgp4Error(satrec.error) };
+    if (!result || !result.position || typeof result.position !== 'object') {
+      return { error: 'SGP4 returned no position' };
+    }
+
+    const geodetic = satellite.eciToGeodetic(result.position, satellite.gstime(date));
+    const position = {
+      latitude: satellite.degreesLat(geodetic.latitude),
+      longitude: satellite.degreesLong(geodetic.longitude),
+      altitude: geodetic.height
+    };
+    if (!Object.values(position).every(Number.isFinite)) {
+      return { error: 'SGP4 returned a non-finite position' };
+    }
+    return {
+      position,
+      motion: satelliteMotion(result.position, result.velocity, date),
+      sunlit: isSunlit(result.position, sunPosition(date)),
+      ...(observer && { lookAngles: lookAngles(observer, result.position, result.velocity, date) })
+    };
+  } catch (error) {
+    return { error: `Propagation failed: ${error.message}` };
+  }
+};
+
+const epochAgeReasons = (epoch: number, time: Date): string[] => {
+  const ageDays = (time.getTime() - epoch) / 86400000;
+  if (ageDays > STALE_EPOCH_DAYS) return [`Epoch is ${Math.floor(ageDays)} days old`];
+  if (ageDays < -FUTURE_EPOCH_DAYS) return [`Epoch is ${Math.floor(-ageDays)} days in the future`];
+  return [];
+};
+
+const toQuality = (invalid: string[], suspect: string[]): DataQuality => {
+  if (invalid.length > 0) return { level: 'invalid', reasons: invalid };
+  return suspect.length > 0 ? { level: 'suspect', reasons: suspect } : { level: 'ok', reasons: [] };
+};
+
+const withStatus = (sat: Satellite, time: Date, decayed = false): Satellite => {
+  const { status, reason } = deriveStatus(sat, time, decayed);
+  return { ...sat, status, statusReason: reason };
+};
+
+/**
+ * Flags the satellite with the outcome of propagating its element set, whose
+ * epoch is given in ms, to `time`. Status is derived here too, since it depends
+ * on the same time and propagation.
+ */
+export const applyPropagation = (
+  sat: Satellite,
+  result: PropagationResult,
+  epoch: number,
+  time: Date,
+  footprintMinElevation = DEFAULT_FOOTPRINT_MIN_ELEVATION
+): Satellite => {
+  if ('error' in result) {
+    // Keep the last good position; hasPosition() stops it from being drawn. Nothing
+    // hides stale look angles or illumination, so they are dropped
+    return withStatus(
+      { ...sat, lookAngles: undefined, sunlit: undefined, quality: toQuality([result.error], []) },
+      time,
+      result.error === SGP4_DECAYED
+    );
+  }
+  return withStatus({
+    ...sat,
+    position: { ...result.position, timestamp: time.getTime() },
+    ...result.motion,
+    sunlit: result.sunlit,
+    lookAngles: result.lookAngles,
+    footprint: footprintRadius(result.position.altitude, footprintMinElevation),
+    quality: toQuality([], epochAgeReasons(epoch, time))
+  }, time);
+};
+
+/**
+ * Invalid: the element set does not parse or SGP4 cannot propagate it to `time`.
+ * Suspect: it propagates, but its epoch is too far from `time` to trust.
+ */
+export const propagateSatellite = (
+  sat: Satellite,
+  time: Date = new Date(),
+  footprintMinElevation = DEFAULT_FOOTPRINT_MIN_ELEVATION,
+  observer: UserLocation | null = null
+): Satellite => {
+  const { elementSet, errors } = validateTLE(sat.tle?.line1, sat.tle?.line2);
+  if (!elementSet) {
+    return withStatus({ ...sat, quality: toQuality(errors, []) }, time);
+  }
+  const epoch = parseEpoch(elementSet.epoch).getTime();
+  const record = getSatrec(sat.id, sat.tle.line1, sat.tle.line2);
+  const result = 'error' in record ? record : propagateSatrec(record.satrec, time, observer && observerGeodetic(observer));
+  return applyPropagation(sat, result, epoch, time, footprintMinElevation);
+};
+
+// Whether the object has a propagated position to draw
+export const hasPosition = (sat: Satellite): boolean =>
+  sat.quality?.level !== 'invalid'
+  && Number.isFinite(sat.position?.latitude)
+  && Number.isFinite(sat.position?.longitude)
+  && Number.isFinite(sat.position?.altitude);
@@ -0,0 +1,70 @@
+// Optical visibility: a satellite can be seen by eye or telescope when it is above the
+// observer's horizon, lit by the Sun, and the observer's own sky is dark enough.
+import * as satellite from 'satellite.js';
+import { Satellite, TwilightLevel, UserLocation } from '../types/satellite.types';
+import { observerGeodetic } from './lookAngles';
+
+const AU_KM = 149597870.7;
+// SGP4's (WGS-72) equatorial radius
+const EARTH_RADIUS_KM = 6378.135;
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const DAY_MS = 86400000;
+
+// Degrees the Sun must be below the horizon for each twilight to have ended
+export const TWILIGHT_DEPRESSION: Record<TwilightLevel, number> = {
+  civil: 6,
+  nautical: 12,
+  astronomical: 18
+};
+export const DEFAULT_TWILIGHT: TwilightLevel = 'nautical';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * The Sun's geocentric position (km) in the inertial frame SGP4 works in, from the
+ * Astronomical Almanac's low-precision formulae. Precession since J2000 is ignored;
+ * at a fraction of a degree it does not matter for shadows or twilight.
+ */
+export const sunPosition = (date: Date): satellite.EciVec3<satellite.Kilometer> => {
+  const days = (date.getTime() - J2000_MS) / DAY_MS;
+  const meanAnomaly = toRadians(357.528 + 0.9856003 * days);
+  const eclipticLongitude = toRadians(
+    280.46 + 0.9856474 * days + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)
+  );
+  const obliquity = toRadians(23.439 - 0.0000004 * days);
+  const distance = (1.00014 - 0.01671 * Math.cos(meanAnomaly) - 0.00014 * Math.cos(2 * meanAnomaly)) * AU_KM;
+  return {
+    x: distance * Math.cos(eclipticLongitude),
+    y: distance * Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    z: distance * Math.sin(obliquity) * Math.sin(eclipticLongitude)
+  };
+};
+
+/**
+ * Whether a satellite at `position` (ECI, km) is outside the Earth's shadow. The shadow
+ * is taken as a cylinder; the penumbra only moves a LEO satellite's shadow entry by seconds.
+ */
+export const isSunlit = (
+  position: satellite.EciVec3<satellite.Kilometer>,
+  sun: satellite.EciVec3<satellite.Kilometer>
+): boolean => {
+  const sunDistance = Math.hypot(sun.x, sun.y, sun.z);
+  // Distance along the Earth-Sun line; on the day side nothing can shade the satellite
+  const along = (position.x * sun.x + position.y * sun.y + position.z * sun.z) / sunDistance;
+  if (along >= 0) return true;
+  const offAxis = position.x ** 2 + position.y ** 2 + position.z ** 2 - along ** 2;
+  return offAxis > EARTH_RADIUS_KM ** 2;
+};
+
+/** The Sun's elevation above the observer's horizon, degrees. */
+export const sunElevation = (observer: UserLocation, date: Date): number => {
+  const sunEcf = satellite.eciToEcf(sunPosition(date), satellite.gstime(date));
+  return satellite.radiansToDegrees(satellite.ecfToLookAngles(observerGeodetic(observer), sunEcf).elevation);
+};
+
+export const isObserverDark = (observer: UserLocation, date: Date, twilight: TwilightLevel = DEFAULT_TWILIGHT): boolean =>
+  sunElevation(observer, date) <= -TWILIGHT_DEPRESSION[twilight];
+
+// Above the horizon and sunlit; whether the observer's sky is dark is checked separately
+export const isAboveHorizonAndSunlit = (sat: Satellite): boolean =>
+  sat.sunlit === true && (sat.lookAngles?.elevation ?? -90) > 0;
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { ElementSetHistoryPoint } from '../types/satellite.types';
+import { SatelliteDataSource } from '../services/dataSources';
+import { addLoadedRange, EpochRange, mergeHistory } from '../services/elementHistory';
+
+export interface ElementSetHistory {
+  points: ElementSetHistoryPoint[];
+  ranges: EpochRange[]; // epoch spans requested so far, in order; gaps between them have not been fetched
+  fetchedAt: number;
+}
+
+interface HistoryStore {
+  histories: Record<string, ElementSetHistory>;
+  loading: Record<string, boolean>;
+  errors: Record<string, string | null>;
+  
+  // Actions
+  loadHistory: (source: SatelliteDataSource, noradId: string, from: Date, to: Date) => Promise<void>;
+  clearHistory: (noradId: string) => void;
+}
+
+// Element set history per NORAD ID; later loads extend what is already held
+export const useHistoryStore = create<HistoryStore>()((set, get) => ({
+  histories: {},
+  loading: {},
+  errors: {},
+  
+  loadHistory: async (source, noradId, from, to) => {
+    if (!source.fetchElementSetHistory) {
+      set((state) => ({ errors: { ...state.errors, [noradId]: `${source.label} does not provide element set history` } }));
+      return;
+    }
+    if (get().loading[noradId]) return;
+    
+    set((state) => ({
+      loading: { ...state.loading, [noradId]: true },
+      errors: { ...state.errors, [noradId]: null }
+    }));
+    
+    try {
+      const points = await source.fetchElementSetHistory(noradId, from, to);
+      set((state) => {
+        const existing = state.histories[noradId];
+        return {
+          histories: {
+            ...state.histories,
+            [noradId]: {
+              points: mergeHistory(existing?.points ?? [], points),
+              ranges: addLoadedRange(existing?.ranges ?? [], { from: from.toISOString(), to: to.toISOString() }),
+              fetchedAt: Date.now()
+            }
+          },
+          loading: { ...state.loading, [noradId]: false }
+        };
+      });
+    } catch (error) {
+      set((state) => ({
+        loading: { ...state.loading, [noradId]: false },
+        errors: { ...state.errors, [noradId]: error.message }
+      }));
+    }
+  },
+  
+  clearHistory: (noradId) => set((state) => {
+    const histories = { ...state.histories };
+    delete histories[noradId];
+    return { histories, errors: { ...state.errors, [noradId]: null } };
+  })
+}));
@@ -1,12 +1,23 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { Satellite, SatelliteFilters, Launch, UserLocation, Globe3DSettings, SatelliteType, SatelliteStatus } from '../types/satellite.types';
+import { Satellite, SatelliteFilters, Launch, UserLocation, Globe3DSettings, SatelliteType, SatelliteStatus, SatelliteDataSourceId, CatalogInfo, Conjunction } from '../types/satellite.types';
+import { latestManeuver } from '../services/maneuvers';
+import { PropagationFrame } from '../services/propagationBatch';
+import { DEFAULT_FOOTPRINT_MIN_ELEVATION } from '../services/satelliteMotion';
+import { anchorClock, clockTime, liveClock } from '../services/simulationClock';
+import { DEFAULT_TWILIGHT, isAboveHorizonAndSunlit, isObserverDark } from '../services/visibility';
 
 interface SatelliteStore {
   // Data
   satellites: Satellite[];
+  propagationFrame: PropagationFrame | null; // latest worker output; the globe draws from it, the satellites are a throttled snapshot of it
+  importedSatellites: Satellite[];
   launches: Launch[];
+  launchFileName: string | null; // set while the schedule comes from a loaded file instead of the feed
   userLocation: UserLocation | null;
+  dataSource: SatelliteDataSourceId;
+  catalogInfo: CatalogInfo | null;
+  importedConjunctions: Conjunction[];
   
   // UI State
   filters: SatelliteFilters;
@@ -14,31 +25,46 @@ interface SatelliteStore {
   isLoading: boolean;
   error: string | null;
   lastUpdate: number;
-  viewMode: 'globe' | 'spreadsheet' | 'guide' | 'education';
+  viewMode: 'globe' | 'spreadsheet' | 'launches' | 'guide' | 'education';
   maxDisplaySatellites: number;
+  selectedConjunction: Conjunction | null;
   
   // Computed
   filteredSatellites: Satellite[];
   
   // Actions
-  setSatellites: (satellites: Satellite[]) => void;
+  setSatellites: (satellites: Satellite[], propagationFrame?: PropagationFrame) => void;
+  setPropagationFrame: (propagationFrame: PropagationFrame) => void;
   updateSatellitePositions: (positionUpdates: { id: string; position: Satellite['position'] }[]) => void;
   updateSatellitePosition: (id: string, position: Satellite['position']) => void;
+  importSatellites: (satellites: Satellite[]) => void;
+  clearImportedSatellites: () => void;
+  importConjunctions: (conjunctions: Conjunction[]) => void;
+  clearImportedConjunctions: () => void;
   setLaunches: (launches: Launch[]) => void;
+  loadLaunchFile: (launches: Launch[], fileName: string) => void;
+  clearLaunchFile: () => void;
   setUserLocation: (location: UserLocation) => void;
+  setDataSource: (source: SatelliteDataSourceId) => void;
+  setCatalogInfo: (info: CatalogInfo | null) => void;
   updateFilters: (filters: Partial<SatelliteFilters>) => void;
   updateGlobeSettings: (settings: Partial<Globe3DSettings>) => void;
   setSelectedSatellite: (id: string | null) => void;
+  selectConjunction: (conjunction: Conjunction | null) => void;
+  setSimulationTime: (time: number | null) => void;
+  setTimeSpeed: (speed: number) => void;
+  setPaused: (paused: boolean) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
-  setViewMode: (mode: 'globe' | 'spreadsheet' | 'guide' | 'education') => void;
+  setViewMode: (mode: 'globe' | 'spreadsheet' | 'launches' | 'guide' | 'education') => void;
   setMaxDisplaySatellites: (max: number) => void;
   
   // Utility
   getSatelliteById: (id: string) => Satellite | undefined;
   getSelectedSatellite: () => Satellite | undefined;
   resetFilters: () => void;
-  applyFilters: (satellites: Satellite[], filters: SatelliteFilters) => Satellite[];
+  // Sorted by altitude unless `compare` is given, then cut to maxDisplaySatellites
+  applyFilters: (satellites: Satellite[], filters: SatelliteFilters, compare?: (a: Satellite, b: Satellite) => number) => Satellite[];
 }
 
 const defaultFilters: SatelliteFilters = {
@@ -46,27 +72,51 @@ const defaultFilters: SatelliteFilters = {
   countries: [],
   agencies: [],
   status: [],
+  objectTypes: [],
+  rcsSizes: [],
+  launchSites: [],
+  qualityLevels: [],
+  maneuveredWithinDays: null,
   altitudeRange: [0, 50000],
   launchDateRange: [null, null],
   searchQuery: '',
   showOnlyVisible: false,
+  visibilityTwilight: DEFAULT_TWILIGHT,
 };
 
+const dataSourceIds: SatelliteDataSourceId[] = ['space-track', 'celestrak', 'local'];
+const defaultDataSource: SatelliteDataSourceId = dataSourceIds.includes(import.meta.env.VITE_SATELLITE_DATA_SOURCE as SatelliteDataSourceId)
+  ? import.meta.env.VITE_SATELLITE_DATA_SOURCE as SatelliteDataSourceId
+  : 'space-track';
+
 const defaultGlobeSettings: Globe3DSettings = {
   showFootprints: false,
+  footprintMinElevation: DEFAULT_FOOTPRINT_MIN_ELEVATION,
   showCities: true,
   showTerminator: true,
   timeSpeed: 1,
   isPaused: false,
   selectedSatelliteId: null,
+  highlightSuspect: true,
+  simulationTime: null,
+  clockAnchor: 0,
 };
 
+// Default display order: lowest objects first
+const byAltitude = (a: Satellite, b: Satellite) => (a.position?.altitude || 0) - (b.position?.altitude || 0);
+
 export const useSatelliteStore = create<SatelliteStore>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
     satellites: [],
+    propagationFrame: null,
+    importedSatellites: [],
     launches: [],
+    launchFileName: null,
     userLocation: null,
+    dataSource: defaultDataSource,
+    catalogInfo: null,
+    importedConjunctions: [],
     filters: defaultFilters,
     globeSettings: defaultGlobeSettings,
     isLoading: false,
@@ -74,21 +124,25 @@ export const useSatelliteStore = create<SatelliteStore>()(
     lastUpdate: 0,
     viewMode: 'globe',
     maxDisplaySatellites: 500, // Reduced from 1000 for better performance
+    selectedConjunction: null,
     
     // Computed - since Zustand getters don't work well, we'll use a selector
     filteredSatellites: [],
     
     // Actions
-    setSatellites: (satellites) => {
+    setSatellites: (satellites, propagationFrame) => {
       const filtered = get().applyFilters(satellites, get().filters);
       set({ 
         satellites, 
+        ...(propagationFrame && { propagationFrame }),
         filteredSatellites: filtered,
         lastUpdate: Date.now(),
         error: null 
       });
     },
     
+    setPropagationFrame: (propagationFrame) => set({ propagationFrame }),
+    
     updateSatellitePositions: (positionUpdates) => set((state) => {
       const updatedSatellites = state.satellites.map(satellite => {
         const update = positionUpdates.find(u => u.id === satellite.id);
@@ -115,10 +169,46 @@ export const useSatelliteStore = create<SatelliteStore>()(
       };
     }),
     
+    // Imported element sets replace catalog entries with the same NORAD ID
+    importSatellites: (satellites) => set((state) => {
+      const imported = new Map(state.importedSatellites.map(sat => [sat.id, sat]));
+      satellites.forEach(sat => imported.set(sat.id, sat));
+      return { importedSatellites: Array.from(imported.values()) };
+    }),
+    
+    clearImportedSatellites: () => set({ importedSatellites: [] }),
+    
+    // Conjunctions loaded from CDM files replace earlier ones with the same message ID
+    importConjunctions: (conjunctions) => set((state) => {
+      const imported = new Map(state.importedConjunctions.map(conjunction => [conjunction.id, conjunction]));
+      conjunctions.forEach(conjunction => imported.set(conjunction.id, conjunction));
+      return { importedConjunctions: Array.from(imported.values()) };
+    }),
+    
+    clearImportedConjunctions: () => {
+      if (get().selectedConjunction?.source === 'file') {
+        get().selectConjunction(null);
+      }
+      set({ importedConjunctions: [] });
+    },
+    
     setLaunches: (launches) => set({ launches }),
     
+    loadLaunchFile: (launches, launchFileName) => set({ launches, launchFileName }),
+    
+    // The feed repopulates the schedule on its next fetch
+    clearLaunchFile: () => set({ launches: [], launchFileName: null }),
+    
     setUserLocation: (userLocation) => set({ userLocation }),
     
+    setCatalogInfo: (catalogInfo) => set({ catalogInfo }),
+    
+    setDataSource: (dataSource) => set((state) => ({
+      dataSource,
+      globeSettings: { ...state.globeSettings, ...liveClock(), selectedSatelliteId: null },
+      selectedConjunction: null
+    })),
+    
     updateFilters: (newFilters) => {
       const state = get();
       const updatedFilters = { ...state.filters, ...newFilters };
@@ -137,7 +227,8 @@ export const useSatelliteStore = create<SatelliteStore>()(
       try {
         console.log('Selecting satellite:', id);
         set((state) => ({
-          globeSettings: { ...state.globeSettings, selectedSatelliteId: id }
+          globeSettings: { ...state.globeSettings, selectedSatelliteId: id },
+          selectedConjunction: id ? null : state.selectedConjunction
         }));
       } catch (error) {
         console.error('Error setting selected satellite:', error);
@@ -145,6 +236,34 @@ export const useSatelliteStore = create<SatelliteStore>()(
       }
     },
     
+    // Holds the clock at the time of closest approach; deselecting returns to real time
+    selectConjunction: (conjunction) => set((state) => ({
+      selectedConjunction: conjunction,
+      globeSettings: {
+        ...state.globeSettings,
+        ...(conjunction
+          ? anchorClock(state.globeSettings, { simulationTime: new Date(conjunction.tca).getTime(), isPaused: true })
+          : liveClock()),
+        selectedSatelliteId: null
+      }
+    })),
+    
+    // Jumps the clock, keeping its speed; null returns to real time
+    setSimulationTime: (simulationTime) => set((state) => ({
+      globeSettings: {
+        ...state.globeSettings,
+        ...(simulationTime === null ? liveClock() : anchorClock(state.globeSettings, { simulationTime }))
+      }
+    })),
+    
+    setTimeSpeed: (timeSpeed) => set((state) => ({
+      globeSettings: { ...state.globeSettings, ...anchorClock(state.globeSettings, { timeSpeed }) }
+    })),
+    
+    setPaused: (isPaused) => set((state) => ({
+      globeSettings: { ...state.globeSettings, ...anchorClock(state.globeSettings, { isPaused }) }
+    })),
+    
     setLoading: (isLoading) => set({ isLoading }),
     
     setError: (error) => set({ error }),
@@ -180,12 +299,22 @@ export const useSatelliteStore = create<SatelliteStore>()(
       });
     },
     
-    applyFilters: (satellites, filters) => {
+    applyFilters: (satellites, filters, compare = byAltitude) => {
       // Early return for empty data
       if (satellites.length === 0) {
         return [];
       }
       
+      // Maneuver windows count back from the simulation time, not the wall clock
+      const now = clockTime(get().globeSettings);
+      const { userLocation } = get();
+      // Whether the observer's sky is dark, per propagation time (one per frame in practice)
+      const darkAt = new Map<number, boolean>();
+      const observerDark = (time: number) => {
+        if (!darkAt.has(time)) darkAt.set(time, isObserverDark(userLocation, new Date(time), filters.visibilityTwilight));
+        return darkAt.get(time);
+      };
+      
       // Use a single pass filter with early exits for better performance
       const filtered = satellites.filter(satellite => {
         // Type filter - early exit
@@ -210,6 +339,34 @@ export const useSatelliteStore = create<SatelliteStore>()(
           return false;
         }
         
+        // SATCAT filters - objects without the field only pass when the filter is unset
+        if (filters.objectTypes.length > 0 && !filters.objectTypes.includes(satellite.metadata?.objectType)) {
+          return false;
+        }
+        
+        if (filters.rcsSizes.length > 0 && !filters.rcsSizes.includes(satellite.metadata?.rcsSize)) {
+          return false;
+        }
+        
+        if (filters.launchSites.length > 0 && !filters.launchSites.includes(satellite.metadata?.launchSite)) {
+          return false;
+        }
+        
+        if (filters.qualityLevels.length > 0 && !filters.qualityLevels.includes(satellite.quality?.level)) {
+          return false;
+        }
+        
+        if (filters.maneuveredWithinDays !== null && !latestManeuver(satellite, filters.maneuveredWithinDays, now)) {
+          return false;
+        }
+        
+        // Visible to the eye needs a location to see from; without one nothing qualifies
+        if (filters.showOnlyVisible && !(
+          userLocation && isAboveHorizonAndSunlit(satellite) && observerDark(satellite.position.timestamp)
+        )) {
+          return false;
+        }
+        
         // Altitude range filter - early exit
         const altitude = satellite.position?.altitude || 0;
         const [minAlt, maxAlt] = filters.altitudeRange;
@@ -224,9 +381,11 @@ export const useSatelliteStore = create<SatelliteStore>()(
           const constellation = (satellite.metadata?.constellation || '').toLowerCase();
           const satelliteCountry = (satellite.metadata?.country || '').toLowerCase();
           const type = satellite.type.toLowerCase();
+          const intlDesignator = (satellite.metadata?.intlDesignator || '').toLowerCase();
           
           if (!name.includes(query) && !constellation.includes(query) && 
-              !satelliteCountry.includes(query) && !type.includes(query)) {
+              !satelliteCountry.includes(query) && !type.includes(query) &&
+              !intlDesignator.includes(query) && satellite.id !== query) {
             return false;
           }
         }
@@ -236,7 +395,7 @@ export const useSatelliteStore = create<SatelliteStore>()(
       
       // Optimized sorting - only sort if needed
       if (filtered.length > 1) {
-        filtered.sort((a, b) => (a.position?.altitude || 0) - (b.position?.altitude || 0));
+        filtered.sort(compare);
       }
       
       // Apply limit efficiently
@@ -3,14 +3,16 @@ export interface Satellite {
   name: string;
   type: SatelliteType;
   status: SatelliteStatus;
+  statusReason?: string; // why deriveStatus() chose the status
   position: {
     latitude: number;
     longitude: number;
     altitude: number;
     timestamp: number;
   };
-  velocity?: number;
-  heading?: number;
+  velocity?: number; // inertial speed, km/s
+  groundSpeed?: number; // speed of the sub-satellite point, km/s
+  heading?: number; // ground-track direction, degrees clockwise from north
   orbital: {
     period: number; // minutes
     inclination: number; // degrees
@@ -18,26 +20,136 @@ export interface Satellite {
     perigee: number; // km
     apogee: number; // km
     epoch: string;
+    creationDate?: string; // when the element set was published
   };
   metadata: {
     constellation?: string;
     country?: string;
     launchDate?: string;
     purpose?: string;
+    // SATCAT fields
+    intlDesignator?: string; // COSPAR ID, e.g. 1998-067A
+    objectType?: CatalogObjectType;
+    owner?: string; // owner/operator code, e.g. US, PRC, ESA
+    launchSite?: string; // Space-Track site code, e.g. AFETR
+    decayDate?: string;
+    rcsSize?: RCSSize;
+    opsStatusCode?: string; // CelesTrak SATCAT operational status: + - P B S X D ?
   };
   tle: {
     line1: string;
     line2: string;
   };
   nextPasses?: PassInfo[];
-  footprint?: number; // radius in km
+  lookAngles?: LookAngles; // from the user's location at position.timestamp; unset without a location
+  sunlit?: boolean; // outside the Earth's shadow at position.timestamp
+  footprint?: number; // ground radius in km that sees the satellite above Globe3DSettings.footprintMinElevation
+  reentry?: ReentryPrediction;
+  quality: DataQuality;
+  classification?: ClassificationMatch[]; // which rule set type, constellation and purpose
+  maneuvers?: ManeuverEvent[]; // detected from successive element sets, oldest first
 }
 
+export type ManeuverKind = 'semi-major-axis' | 'inclination' | 'geo-relocation';
+
+// A change between two successive element sets too large to be drag or fit noise
+export interface ManeuverEvent {
+  id: string;
+  kind: ManeuverKind;
+  time: string; // estimated: midway between the two epochs (ISO, UTC)
+  epochBefore: string;
+  epochAfter: string;
+  change: number; // km of semi-major axis, degrees of inclination, or °/day of GEO drift rate
+  deltaV: number; // m/s, minimum impulsive estimate
+  source: 'refresh' | 'history';
+}
+
+export type ClassificationField = 'type' | 'constellation' | 'purpose';
+
+export interface ClassificationMatch {
+  field: ClassificationField;
+  value: string;
+  ruleId: string;
+  description?: string;
+  priority: number;
+}
+
+// LEO: apogee below 2000 km; GEO: about one sidereal day, near-circular; HEO: highly eccentric
+export type OrbitRegime = 'LEO' | 'MEO' | 'GEO' | 'HEO';
+
+// ok: trustworthy; suspect: propagates but the element set is stale; invalid: cannot be propagated
+export type DataQualityLevel = 'ok' | 'suspect' | 'invalid';
+
+export interface DataQuality {
+  level: DataQualityLevel;
+  reasons: string[];
+}
+
+// One historical element set (Space-Track gp_history), reduced to the values analysts chart
+export interface ElementSetHistoryPoint {
+  epoch: string; // ISO, UTC
+  meanAltitude: number; // km, semi-major axis above the equatorial radius
+  apoapsis: number; // km
+  periapsis: number; // km
+  inclination: number; // degrees
+  eccentricity: number;
+  bstar: number; // drag term, 1/Earth radii
+  meanMotion: number; // rev/day
+}
+
+// Predicted reentry from a Space-Track decay or TIP (tracking and impact prediction) message
+export interface ReentryPrediction {
+  noradId: string;
+  name?: string;
+  source: 'decay' | 'tip';
+  decayEpoch: string; // predicted reentry time (ISO, UTC)
+  windowMinutes?: number; // +/- uncertainty around decayEpoch
+  messageEpoch: string; // when the prediction was issued
+  latitude?: number; // TIP predicted reentry location
+  longitude?: number;
+  direction?: 'ascending' | 'descending';
+  highInterest?: boolean;
+}
+
+// Close approach between two catalog objects, from a Space-Track public CDM (conjunction data message)
+export interface Conjunction {
+  id: string;
+  source: 'space-track' | 'file';
+  tca: string; // time of closest approach (ISO, UTC)
+  missDistance: number; // km
+  probability?: number; // collision probability
+  relativeSpeed?: number; // km/s
+  createdAt?: string;
+  emergencyReportable?: boolean;
+  primary: ConjunctionObject;
+  secondary: ConjunctionObject;
+}
+
+export interface ConjunctionObject {
+  noradId: string;
+  name?: string;
+  objectType?: CatalogObjectType;
+  rcsSize?: RCSSize;
+}
+
+// Where a satellite appears from the observer's location
+export interface LookAngles {
+  azimuth: number; // degrees clockwise from north
+  elevation: number; // degrees above the horizon
+  range: number; // slant range, km
+  rangeRate: number; // km/s, positive while receding
+}
+
+// One pass of a satellite over the observer, above the prediction's minimum elevation
 export interface PassInfo {
-  startTime: Date;
-  maxElevation: number;
+  startTime: Date; // rise, or the start of the prediction window if already up
+  culminationTime: Date;
+  endTime: Date; // set, or the end of the prediction window if still up
+  maxElevation: number; // degrees
   duration: number; // minutes
-  direction: string;
+  riseAzimuth: number; // degrees clockwise from north
+  setAzimuth: number;
+  direction: string; // e.g. "SW → NE"
 }
 
 export type SatelliteType = 
@@ -50,10 +162,17 @@ export type SatelliteType =
   | 'space-station'
   | 'constellation'
   | 'commercial'
-  | 'rocket-body';
+  | 'rocket-body'
+  | 'debris'
+  | 'unknown';
 
 export type SatelliteStatus = 'active' | 'inactive' | 'decayed' | 'unknown';
 
+export type CatalogObjectType = 'payload' | 'rocket-body' | 'debris' | 'unknown';
+
+// Radar cross-section class: small < 0.1 m², medium 0.1-1 m², large > 1 m²
+export type RCSSize = 'small' | 'medium' | 'large';
+
 export interface Launch {
   id: string;
   name: string;
@@ -65,6 +184,8 @@ export interface Launch {
   launchSite: string;
   payloads: string[];
   countdown?: number;
+  cosparId?: string; // launch designator, e.g. 2024-001; objects from the launch are 2024-001A, B...
+  orbit?: string; // target orbit abbreviation, e.g. LEO, SSO, GTO
 }
 
 export type LaunchStatus = 'scheduled' | 'successful' | 'failed' | 'in-flight' | 'cancelled';
@@ -74,23 +195,47 @@ export interface SatelliteFilters {
   countries: string[];
   agencies: string[];
   status: SatelliteStatus[];
+  objectTypes: CatalogObjectType[];
+  rcsSizes: RCSSize[];
+  launchSites: string[];
+  qualityLevels: DataQualityLevel[];
   altitudeRange: [number, number];
   launchDateRange: [Date | null, Date | null];
+  maneuveredWithinDays: number | null;
   searchQuery: string;
-  showOnlyVisible: boolean;
+  showOnlyVisible: boolean; // above the user's horizon, sunlit, and the user's sky dark
+  visibilityTwilight: TwilightLevel; // how dark the sky must be for showOnlyVisible
+}
+
+// Twilight that must have ended: the Sun 6°, 12° or 18° below the horizon
+export type TwilightLevel = 'civil' | 'nautical' | 'astronomical';
+
+export type SatelliteDataSourceId = 'space-track' | 'celestrak' | 'local';
+
+// live: fetched this session; cached: hydrated from IndexedDB while refreshing; stale: refresh failed
+export type CatalogFreshness = 'live' | 'cached' | 'stale';
+
+export interface CatalogInfo {
+  source: SatelliteDataSourceId;
+  fetchedAt: number;
+  freshness: CatalogFreshness;
 }
 
 export interface UserLocation {
   latitude: number;
   longitude: number;
-  altitude?: number;
+  altitude?: number; // km above the ellipsoid
 }
 
 export interface Globe3DSettings {
   showFootprints: boolean;
+  footprintMinElevation: number; // degrees above the horizon that count as coverage
   showCities: boolean;
   showTerminator: boolean;
-  timeSpeed: number; // multiplier for real-time
+  timeSpeed: number; // simulated seconds per real second; negative runs the clock backwards
   isPaused: boolean;
   selectedSatelliteId: string | null;
+  highlightSuspect: boolean; // ring objects whose element sets are suspect
+  simulationTime: number | null; // simulation time (epoch ms) at clockAnchor; null follows real time
+  clockAnchor: number; // wall-clock ms when simulationTime was set, see services/simulationClock
 }
\ No newline at end of file
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SATELLITE_DATA_SOURCE?: string;
+  readonly VITE_CELESTRAK_GP_URL?: string;
+  readonly VITE_CELESTRAK_SATCAT_URL?: string;
+  readonly VITE_LAUNCH_LIBRARY_URL?: string;
+}
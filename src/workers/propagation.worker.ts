@@ -0,0 +1,37 @@
+// Propagation worker: holds initialized satrecs for its share of the catalog and
+// answers each time step with positions in transferable typed arrays.
+import {
+  LoadedElementSet,
+  loadElementSets,
+  propagateElementSets,
+  PropagationRequest,
+  PropagationResponse
+} from '../services/propagationBatch';
+
+let generation = 0;
+let loaded: LoadedElementSet[] = [];
+
+self.onmessage = (event: MessageEvent<PropagationRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'load':
+      generation = request.generation;
+      loaded = loadElementSets(request.elementSets);
+      break;
+    case 'propagate': {
+      const chunk = propagateElementSets(loaded, request.time, request.observer);
+      const response: PropagationResponse = { type: 'chunk', generation, requestId: request.requestId, chunk };
+      self.postMessage(response, {
+        transfer: [
+          chunk.geodetic.buffer,
+          chunk.scene.buffer,
+          chunk.motion.buffer,
+          chunk.look.buffer,
+          chunk.sunlit.buffer,
+          chunk.epochs.buffer
+        ]
+      });
+      break;
+    }
+  }
+};
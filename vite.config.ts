@@ -1,17 +1,93 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import type { AddressInfo } from "net";
+import type { IncomingMessage, ServerResponse } from "http";
+import { pathToFileURL } from "url";
 
-// https://vitejs.dev/config/
-export default defineConfig({
-  server: {
-    host: "::",
-    port: 8080,
+type ProxyHandler = (
+  req: { method?: string; body: unknown },
+  res: ServerResponse & { status: (code: number) => unknown; json: (data: unknown) => unknown }
+) => Promise<unknown>;
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+// SPACE_TRACK_MOCK=1 serves /api/space-track-proxy from the dev server against an in-process
+// mock Space-Track; SPACE_TRACK_MOCK=http://host:port uses an already running mock instead
+const spaceTrackMock = (target: string | undefined, env: Record<string, string>): Plugin => ({
+  name: "space-track-mock",
+  apply: "serve",
+  async configureServer(server) {
+    if (!target) return;
+
+    let baseUrl = target;
+    if (!/^https?:\/\//.test(target)) {
+      const mockPath = path.resolve(__dirname, "mock/space-track-server.js");
+      const { createMockSpaceTrackServer, optionsFromEnv } = await import(pathToFileURL(mockPath).href);
+      const mock = createMockSpaceTrackServer(optionsFromEnv(env));
+      await new Promise<void>((resolve) => mock.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(mock.address() as AddressInfo).port}`;
+      server.httpServer?.on("close", () => mock.close());
+    }
+
+    // The proxy reads these when it is first imported
+    process.env.SPACE_TRACK_BASE_URL = baseUrl;
+    process.env.SPACE_TRACK_IDENTITY = env.SPACE_TRACK_IDENTITY || "mock@example.com";
+    process.env.SPACE_TRACK_PASSWORD = env.SPACE_TRACK_PASSWORD || "mock";
+    const proxyPath = path.resolve(__dirname, "api/space-track-proxy.js");
+    const { default: handler }: { default: ProxyHandler } = await import(pathToFileURL(proxyPath).href);
+    server.config.logger.info(`  Space-Track proxy -> mock at ${baseUrl}`);
+
+    server.middlewares.use("/api/space-track-proxy", async (req, res) => {
+      // Adapt Node's response to the Vercel helpers the handler uses
+      const response = Object.assign(res, {
+        status: (code: number) => { res.statusCode = code; return response; },
+        json: (data: unknown) => {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(data));
+          return response;
+        },
+      });
+      try {
+        const body = req.method === "POST" ? await readJsonBody(req) : {};
+        await handler({ method: req.method, body }, response);
+      } catch (error) {
+        response.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      }
+    });
   },
-  plugins: [react()],
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+});
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "");
+  const mockSetting = env.SPACE_TRACK_MOCK ?? "";
+  const mockTarget = /^https?:\/\//.test(mockSetting)
+    ? mockSetting
+    : mockSetting === "1" || mockSetting === "true" ? "in-process" : undefined;
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
     },
-  },
+    plugins: [react(), spaceTrackMock(mockTarget, env)],
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
+    },
+  };
 });